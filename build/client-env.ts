@@ -0,0 +1,134 @@
+import path from 'path'
+import { normalizePath } from 'vite'
+import type { Plugin } from 'vite'
+import { PAGES_ALIAS } from './config.js'
+import { PUBLIC_ENV_PREFIX, getPublicEnv } from './env.js'
+import { SERVER_ONLY_EXPORTS } from './strip-page-exports.js'
+
+/**
+ * Vite 插件：把 PUBLIC_ 开头的环境变量内联到客户端代码
+ *
+ * 页面组件在服务端和浏览器中各渲染一次，但浏览器中没有 process，
+ * 直接访问 process.env.XXX 会在 hydrate 时抛出 ReferenceError：
+ * - process.env.PUBLIC_XXX 通过 define 替换为构建时的值，两边渲染结果一致
+ * - process.env 本身定义为空对象，其他变量（数据库地址、密钥，以及构建时没有设置的 PUBLIC_ 变量）
+ *   在浏览器中为 undefined，不会进入客户端代码；服务端变量只能在 getStaticProps / getServerSideProps、
+ *   API 路由和中间件中读取
+ *
+ * 页面组件引用了非 PUBLIC_ 变量时，生产构建失败，开发模式输出警告
+ */
+
+/**
+ * 匹配 process.env.XXX 和 process.env['XXX']
+ */
+const ENV_REFERENCE_PATTERN = /\bprocess\.env(?:\.([A-Za-z_$][\w$]*)|\[\s*['"]([^'"]+)['"]\s*\])/g
+
+/**
+ * 创建插件
+ * @returns Vite 插件
+ */
+export function clientEnv(): Plugin {
+  let pagesDir = ''
+  let isBuild = false
+
+  return {
+    name: 'mini-next:client-env',
+
+    config(_, { command }) {
+      // 构建和服务器在启动 Vite 之前已经加载了 .env 文件（build/env.ts）
+      // 开发模式下服务端渲染也经过 Vite（vite.ssrLoadModule），define 同样会替换服务端代码，
+      // 所以 process.env 本身只在构建时定义，开发模式下浏览器中的空对象由 transformIndexHtml 注入
+      const define: Record<string, string> = command === 'build' ? { 'process.env': '{}' } : {}
+
+      for (const [key, value] of Object.entries(getPublicEnv())) {
+        define[`process.env.${key}`] = JSON.stringify(value)
+      }
+
+      return { define }
+    },
+
+    // 开发模式：在 Vite 把 define 写到 globalThis 之前创建 process.env，PUBLIC_ 变量写在它上面
+    transformIndexHtml() {
+      if (isBuild) {
+        return []
+      }
+
+      return [
+        { tag: 'script', children: 'globalThis.process = { env: {} }', injectTo: 'head-prepend' },
+      ]
+    },
+
+    configResolved(config) {
+      isBuild = config.command === 'build'
+      // 与 strip-page-exports 相同，页面目录来自 @pages 别名
+      const alias = config.resolve.alias.find(({ find }) => find === PAGES_ALIAS)
+      pagesDir = normalizePath(alias?.replacement ?? path.join(config.root, 'pages'))
+    },
+
+    // 在 esbuild 编译 TS / JSX 之后、define 替换之前检查页面代码
+    transform(code, id, options) {
+      const file = id.split('?')[0] || ''
+
+      if (options?.ssr || !file.startsWith(`${pagesDir}/`) || !/\.(jsx|tsx)$/.test(file)) {
+        return null
+      }
+
+      if (!code.includes('process.env')) {
+        return null
+      }
+
+      // getStaticProps 等服务端函数只在服务端执行，可以读取任意变量
+      // 不依赖 strip-page-exports 先去掉 export：export function / export const 取其中的声明
+      const serverNodes = this.parse(code).body.flatMap((statement): object[] => {
+        const node =
+          statement.type === 'ExportNamedDeclaration' && statement.declaration
+            ? statement.declaration
+            : statement
+
+        if (node.type === 'FunctionDeclaration') {
+          return SERVER_ONLY_EXPORTS.includes(node.id?.name ?? '') ? [node] : []
+        }
+
+        if (node.type === 'VariableDeclaration') {
+          return node.declarations.filter(
+            (item) => item.id.type === 'Identifier' && SERVER_ONLY_EXPORTS.includes(item.id.name)
+          )
+        }
+
+        return []
+      })
+      // acorn 的节点带有在源码中的位置
+      const serverRanges = serverNodes as { start: number; end: number }[]
+
+      const names = new Set<string>()
+
+      for (const match of code.matchAll(ENV_REFERENCE_PATTERN)) {
+        const name = match[1] ?? match[2] ?? ''
+        const inServerFunction = serverRanges.some(
+          ({ start, end }) => match.index >= start && match.index < end
+        )
+
+        // NODE_ENV 由 Vite 替换
+        if (!inServerFunction && name !== 'NODE_ENV' && !name.startsWith(PUBLIC_ENV_PREFIX)) {
+          names.add(name)
+        }
+      }
+
+      if (names.size === 0) {
+        return null
+      }
+
+      const message =
+        `页面组件引用了只在服务端可用的环境变量 ${[...names].join(', ')}，` +
+        `浏览器中读到的是 undefined（服务端渲染时有值，hydrate 结果会不一致）。请在 getStaticProps / getServerSideProps 中读取后作为 props 传入，` +
+        `或改名为 ${PUBLIC_ENV_PREFIX} 开头`
+
+      if (isBuild) {
+        this.error(message)
+      }
+
+      this.warn(message)
+      return null
+    },
+  }
+}
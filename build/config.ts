@@ -0,0 +1,122 @@
+import fs from 'fs'
+import path from 'path'
+import { pathToRegex } from './generate-routes.js'
+import type { CompiledRule, MiniConfig, RouteHas, RouteManifest } from '../types/index.js'
+
+/**
+ * 加载项目配置（mini.config.ts）
+ *
+ * 配置文件是可选的，不存在时使用空配置
+ * 构建、开发服务器和生产服务器都从这里读取目录、i18n、basePath 以及重定向等规则
+ */
+
+/**
+ * 配置文件名（项目根目录）
+ */
+const CONFIG_FILE = 'mini.config.ts'
+
+/**
+ * 加载 mini.config.ts
+ *
+ * @param projectRoot - 项目根目录
+ * @returns 配置
+ */
+export async function loadConfig(projectRoot: string): Promise<MiniConfig> {
+  const configPath = path.join(projectRoot, CONFIG_FILE)
+
+  if (!fs.existsSync(configPath)) {
+    return {}
+  }
+
+  const module = (await import(`file://${configPath}`)) as { default?: MiniConfig }
+  return module.default || {}
+}
+
+/**
+ * 页面目录在 Vite 中的别名
+ *
+ * 客户端入口用 import.meta.glob('@pages/**') 收集页面，pagesDir 可以配置，
+ * 别名由 vite.config.ts（默认 pages）和构建、开发服务器（mini.config.ts 的 pagesDir）提供
+ */
+export const PAGES_ALIAS = '@pages'
+
+/**
+ * 项目目录（绝对路径）
+ */
+export interface ProjectDirs {
+  /** 构建输出目录 */
+  distDir: string
+  /** 页面目录 */
+  pagesDir: string
+  /** 静态文件目录 */
+  publicDir: string
+}
+
+/**
+ * 解析配置中的目录
+ *
+ * @param projectRoot - 项目根目录
+ * @param config - 项目配置
+ * @returns 目录的绝对路径（默认 .next、pages、public）
+ */
+export function resolveDirs(projectRoot: string, config: MiniConfig): ProjectDirs {
+  return {
+    distDir: path.resolve(projectRoot, config.distDir ?? '.next'),
+    pagesDir: path.resolve(projectRoot, config.pagesDir ?? 'pages'),
+    publicDir: path.resolve(projectRoot, config.publicDir ?? 'public'),
+  }
+}
+
+/**
+ * 编译 redirects / rewrites / headers 规则
+ *
+ * 调用配置中的函数，把每条规则的 source 编译为与路由相同格式的正则表达式，写入路由清单
+ *
+ * @param config - 项目配置
+ * @returns 编译后的规则
+ * @throws source 不是以 / 开头的路径，或 rewrite 的 destination 不是站内路径
+ */
+export async function compileRouteRules(
+  config: MiniConfig
+): Promise<Pick<RouteManifest, 'redirects' | 'rewrites' | 'headers'>> {
+  const redirects = (await config.redirects?.()) ?? []
+  const rewrites = (await config.rewrites?.()) ?? []
+  const headers = (await config.headers?.()) ?? []
+
+  for (const rule of [...redirects, ...rewrites, ...headers]) {
+    if (!rule.source.startsWith('/')) {
+      throw new Error(`规则的 source 必须以 / 开头: ${rule.source}`)
+    }
+  }
+
+  for (const rule of rewrites) {
+    if (!rule.destination.startsWith('/') || rule.destination.startsWith('//')) {
+      throw new Error(`rewrite 的 destination 必须是站内路径: ${rule.destination}`)
+    }
+  }
+
+  return {
+    redirects: redirects.map(({ permanent, ...rule }) => ({
+      ...compileSource(rule),
+      destination: rule.destination,
+      statusCode: permanent ? 308 : 307,
+    })),
+    rewrites: rewrites.map((rule) => ({ ...compileSource(rule), destination: rule.destination })),
+    headers: headers.map((rule) => ({ ...compileSource(rule), headers: rule.headers })),
+  }
+}
+
+/**
+ * @param rule - 规则
+ * @returns 编译后的 source 和 has 条件
+ */
+function compileSource(rule: { source: string; has?: RouteHas[] }): CompiledRule {
+  return {
+    source: rule.source,
+    pattern: pathToRegex(rule.source),
+    paramNames: [...rule.source.matchAll(/\/:([A-Za-z_]\w*)[+*]?(?=\/|$)/g)].map(
+      (match) => match[1]!
+    ),
+    ...(rule.has && { has: rule.has }),
+  }
+}
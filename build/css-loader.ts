@@ -0,0 +1,70 @@
+import fs from 'fs'
+import path from 'path'
+import { register } from 'module'
+import { fileURLToPath } from 'url'
+import type { InitializeHook, LoadHook } from 'module'
+import type { ResolvedConfig } from 'vite'
+
+/**
+ * Node.js 模块钩子：在服务端导入 CSS
+ *
+ * 页面和组件可以 import '.css' 和 '.module.css'，客户端由 Vite 处理；
+ * 服务端（构建时预渲染、生产模式 SSR）直接用 Node.js 导入页面，默认无法加载 CSS 文件
+ * （开发模式由 vite.ssrLoadModule 加载页面，CSS 交给 Vite 处理）：
+ * - xxx.css：全局样式，服务端不需要内容，加载为空模块
+ * - xxx.module.css：交给 Vite 的 preprocessCSS 编译（使用 vite.config.ts 中的 css 配置），
+ *   默认导出类名映射，与客户端构建得到的类名一致，hydrate 时不会不匹配
+ *
+ * 样式本身由 Vite 打包，生产环境根据 Vite 清单只在用到它们的页面输出 <link rel="stylesheet">
+ */
+
+/**
+ * 注册钩子（在导入页面之前调用）
+ *
+ * @param projectRoot - 项目根目录（读取其中的 vite.config.ts）
+ */
+export function registerCssLoader(projectRoot: string): void {
+  register(import.meta.url, { data: { projectRoot } })
+}
+
+// 以下在 Node.js 的钩子线程中运行
+
+let root = process.cwd()
+
+// 解析后的 Vite 配置，第一次遇到 CSS Module 时加载
+let viteConfig: Promise<ResolvedConfig> | null = null
+
+export const initialize: InitializeHook<{ projectRoot: string }> = (data) => {
+  root = data.projectRoot
+}
+
+export const load: LoadHook = async (url, context, nextLoad) => {
+  if (!url.startsWith('file:') || !fileURLToPath(url).endsWith('.css')) {
+    return nextLoad(url, context)
+  }
+
+  const filePath = fileURLToPath(url)
+
+  if (!filePath.endsWith('.module.css')) {
+    return { format: 'module', source: 'export {}', shortCircuit: true }
+  }
+
+  const { preprocessCSS, resolveConfig } = await import('vite')
+
+  viteConfig ??= resolveConfig(
+    { root, configFile: path.join(root, 'vite.config.ts'), logLevel: 'silent' },
+    'build'
+  )
+
+  const { modules = {} } = await preprocessCSS(
+    fs.readFileSync(filePath, 'utf-8'),
+    filePath,
+    await viteConfig
+  )
+
+  return {
+    format: 'module',
+    source: `export default ${JSON.stringify(modules)}`,
+    shortCircuit: true,
+  }
+}
@@ -0,0 +1,72 @@
+import fs from 'fs'
+import path from 'path'
+import { parseEnv } from 'util'
+
+/**
+ * 环境变量（项目根目录的 .env 文件）
+ *
+ * 构建和服务器启动时加载，页面的 getStaticProps / getServerSideProps、API 路由和中间件
+ * 通过 process.env 读取。按优先级从高到低：
+ * 1. 启动进程时已经存在的环境变量
+ * 2. .env.[mode].local（mode 为 production 或 development）
+ * 3. .env.local
+ * 4. .env.[mode]
+ * 5. .env
+ *
+ * 以 PUBLIC_ 开头的变量在客户端构建时内联（见 build/client-env.ts），其他变量只在服务端可用
+ * 文件用 Node.js 的 util.parseEnv 解析（20.12 起可用，见 package.json 的 engines）
+ */
+
+/**
+ * 可以在客户端代码中使用的环境变量前缀
+ */
+export const PUBLIC_ENV_PREFIX = 'PUBLIC_'
+
+/**
+ * 加载 .env 文件的模式：构建和 npm start 为 production，npm run dev 为 development
+ */
+export type EnvMode = 'production' | 'development'
+
+/**
+ * 加载 .env 文件，写入 process.env
+ *
+ * 已经存在的变量不会被覆盖，部署平台设置的环境变量优先于文件
+ *
+ * @param projectRoot - 项目根目录
+ * @param mode - 模式
+ * @returns 加载的文件名（按优先级从高到低）
+ */
+export function loadEnvFiles(projectRoot: string, mode: EnvMode): string[] {
+  const files = [`.env.${mode}.local`, '.env.local', `.env.${mode}`, '.env'].filter((file) =>
+    fs.existsSync(path.join(projectRoot, file))
+  )
+
+  for (const file of files) {
+    const values = parseEnv(fs.readFileSync(path.join(projectRoot, file), 'utf-8'))
+
+    for (const [key, value] of Object.entries(values)) {
+      if (process.env[key] === undefined && value !== undefined) {
+        process.env[key] = value
+      }
+    }
+  }
+
+  return files
+}
+
+/**
+ * 读取可以内联到客户端的环境变量
+ *
+ * @returns 以 PUBLIC_ 开头的变量
+ */
+export function getPublicEnv(): Record<string, string> {
+  const env: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (key.startsWith(PUBLIC_ENV_PREFIX) && value !== undefined) {
+      env[key] = value
+    }
+  }
+
+  return env
+}
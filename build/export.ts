@@ -0,0 +1,256 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { loadManifest, getManifest, matchRoute } from '../server/router.js'
+import { findMiddleware } from '../server/middleware.js'
+import { loadConfig, resolveDirs } from './config.js'
+import type {
+  PageData,
+  PageRedirectData,
+  StaticPageData,
+  StaticRedirectData,
+} from '../types/index.js'
+
+/**
+ * Mini Next.js Static Export
+ *
+ * 把 npm run build 的产物转换成不需要服务器的静态站点（out 目录）
+ *
+ * Export flow:
+ * 1. Load route manifest ({distDir}/manifest.json)
+ * 2. Check every route can be exported (no SSR pages)
+ * 3. Clean output directory
+ * 4. Write pages as {path}/index.html and data as /_next/data/{buildId}/{path}.json
+ *    (with i18n, default-locale pages move to the root, other locales stay under /{locale})
+ * 5. Copy client bundles and public assets
+ *
+ * 限制：
+ * - getServerSideProps 页面和没有 getStaticPaths 的动态路由（SSR）无法导出，导出失败
+ * - API 路由、ISR（revalidate）、fallback 的按需生成都需要服务器，导出后不生效
+ * - middleware.ts 不会运行；mini.config.ts 的 headers 和服务端的重定向 / 重写不生效，只有客户端导航时的重定向 / 重写仍然有效
+ */
+
+// 获取当前文件的目录路径（ESM 中没有 __dirname）
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const projectRoot = path.resolve(__dirname, '..')
+
+// 构建输出和 public 目录来自 mini.config.ts
+const { distDir: buildDir, publicDir } = resolveDirs(projectRoot, await loadConfig(projectRoot))
+const staticDir = path.join(buildDir, 'static')
+const outDir = path.join(projectRoot, 'out')
+
+/**
+ * 错误页面文件名（静态文件服务器约定在根目录查找 404.html）
+ */
+const ERROR_PAGES = ['404', '500']
+
+console.log('\n📦 Mini Next.js 静态导出开始...\n')
+
+// ==================== 第一步：读取构建产物 ====================
+console.log('1️⃣  读取路由清单...')
+
+try {
+  loadManifest(path.join(buildDir, 'manifest.json'))
+} catch (error) {
+  console.error('❌ 请先运行 npm run build 构建项目')
+  process.exit(1)
+}
+
+const manifest = getManifest()
+
+console.log(`  ✓ Build ID: ${manifest.buildId}\n`)
+
+// ==================== 第二步：检查路由 ====================
+console.log('2️⃣  检查路由...')
+
+const errors: string[] = []
+
+for (const route of manifest.routes) {
+  const file = path.relative(projectRoot, route.componentPath)
+
+  if (route.renderType === 'ssr') {
+    errors.push(`${route.path} (${file}) 是 SSR 页面，需要服务器在请求时渲染`)
+  } else if (route.renderType === 'api') {
+    console.warn(`  ⚠️  ${route.path} (${file}) 是 API 路由，导出后不可用`)
+  } else if (route.fallback === true || route.fallback === 'blocking') {
+    console.warn(
+      `  ⚠️  ${route.path} (${file}) 使用 fallback: ${JSON.stringify(route.fallback)}，` +
+        '只导出预生成的路径，其他路径返回 404'
+    )
+  } else if (route.revalidate !== undefined) {
+    console.warn(`  ⚠️  ${route.path} (${file}) 使用 revalidate，导出后不会重新生成`)
+  }
+}
+
+if (manifest.redirects.length || manifest.rewrites.length || manifest.headers.length) {
+  console.warn(
+    '  ⚠️  mini.config.ts 的 redirects / rewrites / headers 需要服务器，直接访问时不生效'
+  )
+}
+
+if (findMiddleware(projectRoot)) {
+  console.warn('  ⚠️  middleware.ts 需要服务器，导出后不会运行')
+}
+
+if (errors.length > 0) {
+  console.error('\n❌ 静态导出失败，以下页面无法导出：')
+  errors.forEach((message) => console.error(`  - ${message}`))
+  console.error('\n💡 把 getServerSideProps 改为 getStaticProps，或为动态路由添加 getStaticPaths\n')
+  process.exit(1)
+}
+
+console.log('  ✓ 所有页面都可以导出\n')
+
+// ==================== 第三步：清理输出目录 ====================
+console.log('3️⃣  清理输出目录...')
+
+if (fs.existsSync(outDir)) {
+  fs.rmSync(outDir, { recursive: true, force: true })
+}
+fs.mkdirSync(outDir, { recursive: true })
+
+console.log(`  ✓ 输出目录: ${outDir}\n`)
+
+// ==================== 第四步：导出页面和数据 ====================
+console.log('4️⃣  导出页面...')
+
+const dataDir = path.join(outDir, '_next/data', manifest.buildId)
+
+let pageCount = 0
+let dataCount = 0
+let assetCount = 0
+
+// 默认语言的页面预渲染在 .next/static/{defaultLocale} 下，导出后的 URL 没有语言前缀
+const defaultLocalePrefix = manifest.i18n ? `${manifest.i18n.defaultLocale}/` : null
+
+for (const file of listFiles(staticDir)) {
+  const ext = path.extname(file)
+  const fileName = file.slice(0, -ext.length).split(path.sep).join('/')
+  const name =
+    defaultLocalePrefix && fileName.startsWith(defaultLocalePrefix)
+      ? fileName.slice(defaultLocalePrefix.length)
+      : fileName
+
+  if (ext === '.html') {
+    // about.html -> about/index.html，静态文件服务器访问 /about 时返回这个文件
+    // 其他语言的首页 en/index.html 保持不变（对应 /en）
+    const target =
+      name === 'index' || name.endsWith('/index') || ERROR_PAGES.includes(name)
+        ? `${name}.html`
+        : `${name}/index.html`
+
+    copyFile(path.join(staticDir, file), path.join(outDir, target))
+    console.log(`  ✓ /${target}`)
+    pageCount++
+  } else if (ext === '.json') {
+    // 错误页面的数据只在服务端渲染错误时使用
+    if (ERROR_PAGES.includes(name)) continue
+
+    const data = toExportData(name, path.join(staticDir, file))
+
+    if (data) {
+      writeFile(path.join(dataDir, `${name}.json`), JSON.stringify(data))
+      dataCount++
+    }
+  } else {
+    // 客户端 bundle、CSS 等资源
+    copyFile(path.join(staticDir, file), path.join(outDir, file))
+    assetCount++
+  }
+}
+
+console.log(`\n  ✓ ${pageCount} 个页面，${dataCount} 个数据文件，${assetCount} 个客户端资源\n`)
+
+// ==================== 第五步：复制 public 目录 ====================
+console.log('5️⃣  复制 public 目录...')
+
+if (fs.existsSync(publicDir)) {
+  fs.cpSync(publicDir, outDir, { recursive: true })
+  console.log('  ✓ public 目录已复制\n')
+} else {
+  console.log('  - 没有 public 目录\n')
+}
+
+// ==================== 导出完成 ====================
+console.log('✅ 导出完成！\n')
+console.log(`💡 out 目录可以部署到任意静态文件服务器，例如: npx serve out\n`)
+
+/**
+ * 递归列出目录下的文件（跳过 .vite 等隐藏目录）
+ *
+ * @param dir - 目录
+ * @param base - 相对路径前缀
+ * @returns 相对于 dir 的文件路径
+ */
+function listFiles(dir: string, base = ''): string[] {
+  const files: string[] = []
+
+  for (const entry of fs.readdirSync(path.join(dir, base), { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue
+
+    const relativePath = path.join(base, entry.name)
+
+    if (entry.isDirectory()) {
+      files.push(...listFiles(dir, relativePath))
+    } else {
+      files.push(relativePath)
+    }
+  }
+
+  return files
+}
+
+/**
+ * 把预渲染的 JSON 转换成客户端导航使用的数据（与服务端数据接口的返回值一致）
+ *
+ * @param name - 输出路径（如 blog/1、en/blog/1，首页为 index、en/index）
+ * @param filePath - JSON 文件路径
+ * @returns 页面数据或重定向，找不到对应路由时返回 null
+ */
+function toExportData(name: string, filePath: string): PageData | PageRedirectData | null {
+  const content = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as
+    StaticPageData | StaticRedirectData
+
+  // 只有数据、没有 HTML：客户端导航时照常跳转，直接访问时返回 404
+  if ('redirect' in content) {
+    console.warn(`  ⚠️  /${name} 返回 redirect，只有客户端导航会跳转`)
+    return { redirect: content.redirect }
+  }
+
+  const matchResult = matchRoute(`/${name}`.replace(/\/index$/, '') || '/')
+
+  if (!matchResult) {
+    console.warn(`  ⚠️  /${name} 没有匹配的路由，跳过`)
+    return null
+  }
+
+  return {
+    pageProps: content.pageProps,
+    query: content.query,
+    page: matchResult.route.path,
+    locale: matchResult.locale,
+  }
+}
+
+/**
+ * 复制文件（自动创建目录）
+ *
+ * @param from - 源文件
+ * @param to - 目标文件
+ */
+function copyFile(from: string, to: string): void {
+  fs.mkdirSync(path.dirname(to), { recursive: true })
+  fs.copyFileSync(from, to)
+}
+
+/**
+ * 写入文件（自动创建目录）
+ *
+ * @param filePath - 文件路径
+ * @param content - 文件内容
+ */
+function writeFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, content)
+}
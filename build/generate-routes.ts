@@ -1,4 +1,4 @@
-import type { PageMetadata, Route, RouteManifest } from '../types/index.js'
+import type { PageMetadata, Route, RouteManifest, SpecialPages } from '../types/index.js'
 
 /**
  * 生成路由映射清单
@@ -11,9 +11,10 @@ import type { PageMetadata, Route, RouteManifest } from '../types/index.js'
  * 生成路由清单
  *
  * @param pages - 扫描到的页面信息数组
+ * @param specialPages - pages 目录下的特殊文件（_app 等）
  * @returns 路由清单
  */
-export function generateRoutes(pages: PageMetadata[]): RouteManifest {
+export function generateRoutes(pages: PageMetadata[], specialPages: SpecialPages): RouteManifest {
   const routes: Route[] = pages.map((page) => ({
     // 路由路径（如 /blog/:id）
     path: page.routePath,
@@ -30,14 +31,35 @@ export function generateRoutes(pages: PageMetadata[]): RouteManifest {
     // 是否为动态路由
     isDynamic: page.isDynamic,
 
-    // 渲染类型（在构建过程中会设置为 'ssg' 或 'ssr'）
-    renderType: null,
+    // 渲染类型（在构建过程中会设置为 'ssg' 或 'ssr'，API 路由固定为 'api'）
+    renderType: page.isApi ? 'api' : null,
   }))
 
+  // 按优先级排序：matchRoute 和客户端都按清单顺序取第一个匹配的路由，
+  // 排序后结果不再依赖 fs.readdirSync 返回的文件顺序
+  routes.sort(compareRoutes)
+
   return {
     routes,
     // 添加构建时间戳
     buildTime: new Date().toISOString(),
+    // 开发模式的默认值：Vite 直接提供入口源码
+    // 构建时在客户端代码构建完成后替换为产物的 Build ID 和入口文件
+    buildId: 'development',
+    clientEntry: '/client/index.tsx',
+    // 开发模式由 Vite 按需加载模块和注入 CSS，不需要预加载
+    pageAssets: {},
+    // 部署在根路径；构建时和开发模式根据 mini.config.ts 设置
+    basePath: '',
+    assetPrefix: '',
+    // 页面 URL 默认不以 / 结尾；构建时和开发模式根据 mini.config.ts 设置
+    trailingSlash: false,
+    // mini.config.ts 中的重定向、重写和自定义响应头（构建时和开发模式编译后设置）
+    redirects: [],
+    rewrites: [],
+    headers: [],
+    // 特殊文件（服务端渲染时用于包裹页面）
+    specialPages,
   }
 }
 
@@ -48,20 +70,89 @@ export function generateRoutes(pages: PageMetadata[]): RouteManifest {
  * - / -> ^/$
  * - /about -> ^/about$
  * - /blog/:id -> ^/blog/([^/]+)$
+ * - /docs/:slug+ -> ^/docs/(.+)$ (catch-all)
+ * - /docs/:slug* -> ^/docs(?:/(.+))?$ (可选 catch-all，也匹配 /docs)
+ *
+ * mini.config.ts 中规则的 source 使用相同的语法，也由这里编译
  *
  * @param routePath - 路由路径
  * @returns 正则表达式字符串
  */
-function pathToRegex(routePath: string): string {
-  // 转义特殊字符
-  let pattern = routePath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+export function pathToRegex(routePath: string): string {
+  const segments = routePath.split('/').filter(Boolean)
+
+  // 根路径的可选 catch-all（pages/[[...slug]].jsx）需要同时匹配 /
+  if (segments.length === 1 && /^:.+\*$/.test(segments[0]!)) {
+    return '^/(.+)?$'
+  }
 
-  // 将 :param 转换为捕获组
-  // :id -> ([^/]+) 匹配除了 / 之外的任意字符
-  pattern = pattern.replace(/:([^/]+)/g, '([^/]+)')
+  const pattern = segments
+    .map((segment) => {
+      // :slug* -> 可选 catch-all，连同前面的 / 一起变为可选
+      if (/^:.+\*$/.test(segment)) return '(?:/(.+))?'
+
+      // :slug+ -> catch-all，匹配包含 / 的多个片段
+      if (/^:.+\+$/.test(segment)) return '/(.+)'
+
+      // :id -> ([^/]+) 匹配除了 / 之外的任意字符
+      if (segment.startsWith(':')) return '/([^/]+)'
+
+      // 静态片段：转义特殊字符
+      return '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
 
   // 添加开始和结束锚点
-  return `^${pattern}$`
+  return `^${pattern || '/'}$`
+}
+
+/**
+ * 路由片段的优先级（数字越小越优先）
+ *
+ * - 静态片段 about -> 0
+ * - 动态片段 :id -> 1
+ * - catch-all :slug+ -> 2
+ * - 可选 catch-all :slug* -> 3
+ *
+ * @param segment - 路由片段
+ * @returns 优先级
+ */
+function getSegmentRank(segment: string): number {
+  if (!segment.startsWith(':')) return 0
+  if (segment.endsWith('*')) return 3
+  if (segment.endsWith('+')) return 2
+  return 1
+}
+
+/**
+ * 比较两个路由的优先级（与 Next.js 的规则一致）
+ *
+ * 从左到右逐段比较，第一个不同的片段决定顺序：
+ * - /blog/new 优先于 /blog/:id（静态优先于动态）
+ * - /blog/:id 优先于 /blog/:slug+（动态优先于 catch-all）
+ * - /docs 优先于 /docs/:slug*（片段更少的优先）
+ * 完全同级时按路径字符串排序，保证结果稳定
+ *
+ * @param a - 路由 a
+ * @param b - 路由 b
+ * @returns 负数表示 a 优先
+ */
+function compareRoutes(a: Route, b: Route): number {
+  const aSegments = a.path.split('/').filter(Boolean)
+  const bSegments = b.path.split('/').filter(Boolean)
+  const length = Math.min(aSegments.length, bSegments.length)
+
+  for (let i = 0; i < length; i++) {
+    const rankDiff = getSegmentRank(aSegments[i]!) - getSegmentRank(bSegments[i]!)
+    if (rankDiff !== 0) return rankDiff
+  }
+
+  // 前缀相同时，片段更少的路由更具体
+  if (aSegments.length !== bSegments.length) {
+    return aSegments.length - bSegments.length
+  }
+
+  return a.path < b.path ? -1 : a.path > b.path ? 1 : 0
 }
 
 /**
@@ -82,6 +173,24 @@ export function printRouteManifest(manifest: RouteManifest): void {
     }
   })
 
+  if (manifest.specialPages.app) {
+    console.log(`\n自定义 App: ${manifest.specialPages.app}`)
+  }
+
+  if (manifest.specialPages.document) {
+    console.log(`自定义 Document: ${manifest.specialPages.document}`)
+  }
+
+  const errorPages = [
+    manifest.specialPages.notFound,
+    manifest.specialPages.serverError,
+    manifest.specialPages.error,
+  ].filter(Boolean)
+
+  if (errorPages.length > 0) {
+    console.log(`错误页面: ${errorPages.join(', ')}`)
+  }
+
   console.log(`\n构建时间: ${manifest.buildTime}`)
   console.log('=====================================\n')
 }
@@ -1,10 +1,21 @@
 import fs from 'fs'
 import path from 'path'
 import { fileURLToPath } from 'url'
-import { execSync } from 'child_process'
-import { scanPages, printScanResult } from './scan-pages.js'
+import { scanPages, scanSpecialPages, printScanResult } from './scan-pages.js'
 import { generateRoutes, printRouteManifest } from './generate-routes.js'
-import { renderStaticPage } from './render-static.js'
+import { renderStaticPage, renderErrorPages } from './render-static.js'
+import {
+  readViteManifest,
+  getClientEntry,
+  createBuildId,
+  collectPageAssets,
+} from './vite-manifest.js'
+import { validateRoutes, printValidationIssues } from './validate-routes.js'
+import { writeRouteTypes } from './route-types.js'
+import { collectRouteSizes, printSizeReport, checkBudgets } from './size-report.js'
+import { PAGES_ALIAS, compileRouteRules, loadConfig, resolveDirs } from './config.js'
+import { registerCssLoader } from './css-loader.js'
+import { loadEnvFiles, getPublicEnv } from './env.js'
 
 /**
  * Mini Next.js Build System Entry Point
@@ -12,10 +23,11 @@ import { renderStaticPage } from './render-static.js'
  * Build flow:
  * 1. Clean output directory
  * 2. Scan pages directory
- * 3. Generate route manifest
+ * 3. Generate route manifest and validate routes / page exports
  * 4. Pre-render SSG pages
- * 5. Build client JavaScript
- * 6. Save manifest file
+ * 5. Build client JavaScript and derive the build ID
+ * 6. Report client JS size per route and check budgets
+ * 7. Save manifest file
  */
 
 // 获取当前文件的目录路径（ESM 中没有 __dirname）
@@ -23,11 +35,26 @@ const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 const projectRoot = path.resolve(__dirname, '..')
 
+// 页面可以导入 CSS / CSS Modules，服务端渲染前注册加载钩子
+registerCssLoader(projectRoot)
+
+// 环境变量（.env 文件）：预渲染时页面读取，PUBLIC_ 开头的变量内联到客户端；mini.config.ts 也可以使用
+const envFiles = loadEnvFiles(projectRoot, 'production')
+
+// 项目配置（mini.config.ts，可选）
+const config = await loadConfig(projectRoot)
+const { distDir, pagesDir } = resolveDirs(projectRoot, config)
+
 console.log('\n🚀 Mini Next.js 构建开始...\n')
 
+if (envFiles.length > 0) {
+  const publicCount = Object.keys(getPublicEnv()).length
+  console.log(`🔑 环境变量: ${envFiles.join(', ')}（${publicCount} 个 PUBLIC_ 变量内联到客户端）\n`)
+}
+
 // ==================== 第一步：清理输出目录 ====================
 console.log('1️⃣  清理输出目录...')
-const outputDir = path.join(projectRoot, '.next')
+const outputDir = distDir
 
 if (fs.existsSync(outputDir)) {
   fs.rmSync(outputDir, { recursive: true, force: true })
@@ -41,23 +68,100 @@ console.log('  ✓ 输出目录已清理\n')
 
 // ==================== 第二步：扫描 pages 目录 ====================
 console.log('2️⃣  扫描 pages 目录...')
-const pagesDir = path.join(projectRoot, 'pages')
 
 if (!fs.existsSync(pagesDir)) {
-  console.error('❌ pages 目录不存在，请创建 pages 目录')
+  console.error(`❌ 页面目录不存在，请创建 ${path.relative(projectRoot, pagesDir)} 目录`)
   process.exit(1)
 }
 
 const pages = scanPages(pagesDir)
+const specialPages = scanSpecialPages(pagesDir)
 printScanResult(pages)
 
 console.log(`  ✓ 找到 ${pages.length} 个页面\n`)
 
 // ==================== 第三步：生成路由清单 ====================
 console.log('3️⃣  生成路由清单...')
-const manifest = generateRoutes(pages)
+const manifest = generateRoutes(pages, specialPages)
 printRouteManifest(manifest)
 
+// 国际化配置写入清单，预渲染和服务端按语言处理页面
+if (config.i18n) {
+  const { locales, defaultLocale } = config.i18n
+
+  if (!locales.includes(defaultLocale)) {
+    console.error(`❌ i18n.defaultLocale "${defaultLocale}" 不在 i18n.locales 中`)
+    process.exit(1)
+  }
+
+  manifest.i18n = config.i18n
+  console.log(`  ✓ 国际化: ${locales.join(', ')}（默认 ${defaultLocale}）`)
+}
+
+// 子路径部署：basePath 以 / 开头、不以 / 结尾；脚本和样式的前缀默认与 basePath 相同
+if (config.basePath !== undefined && !/^(\/[^/]+)+$/.test(config.basePath)) {
+  console.error(`❌ basePath "${config.basePath}" 必须以 / 开头且不以 / 结尾（如 /docs）`)
+  process.exit(1)
+}
+
+manifest.basePath = config.basePath ?? ''
+manifest.assetPrefix = (config.assetPrefix ?? manifest.basePath).replace(/\/+$/, '')
+
+if (manifest.basePath || manifest.assetPrefix) {
+  console.log(
+    `  ✓ basePath: ${manifest.basePath || '/'}，assetPrefix: ${manifest.assetPrefix || '/'}`
+  )
+}
+
+// 页面 URL 是否以 / 结尾，同时决定 SSG 页面的输出位置（about.html 或 about/index.html）
+manifest.trailingSlash = config.trailingSlash ?? false
+
+if (manifest.trailingSlash) {
+  console.log('  ✓ trailingSlash: 页面 URL 以 / 结尾')
+}
+
+// 重定向、重写和自定义响应头：编译 source 写入清单，服务端和客户端路由器在匹配路由之前处理
+try {
+  Object.assign(manifest, await compileRouteRules(config))
+} catch (error) {
+  const message = error instanceof Error ? error.message : String(error)
+  console.error(`❌ mini.config.ts 规则无效: ${message}`)
+  process.exit(1)
+}
+
+const ruleCount = manifest.redirects.length + manifest.rewrites.length + manifest.headers.length
+
+if (ruleCount > 0) {
+  manifest.redirects.forEach((rule) =>
+    console.log(`  ↪️  ${rule.source} -> ${rule.destination} (${rule.statusCode})`)
+  )
+  manifest.rewrites.forEach((rule) => console.log(`  🔀 ${rule.source} -> ${rule.destination}`))
+  manifest.headers.forEach((rule) =>
+    console.log(`  🏷️  ${rule.source}: ${rule.headers.map(({ key }) => key).join(', ')}`)
+  )
+  console.log(`  ✓ 重定向 / 重写 / 响应头规则: ${ruleCount} 条`)
+}
+
+// 校验路由冲突和页面导出，有错误时不再继续构建
+console.log('  校验路由和页面导出...')
+const issues = await validateRoutes(manifest)
+const errorCount = issues.filter((issue) => issue.level === 'error').length
+
+printValidationIssues(issues, projectRoot)
+
+if (errorCount > 0) {
+  console.error(`\n❌ 校验失败: ${errorCount} 个错误，构建终止\n`)
+  process.exit(1)
+}
+
+console.log(`  ✓ 校验通过${issues.length > 0 ? `（${issues.length} 个警告）` : ''}`)
+
+// 生成路由类型，Link 和 router.push 只接受存在的路由
+writeRouteTypes(manifest, distDir)
+console.log(
+  `  ✓ 路由类型已生成: ${path.relative(projectRoot, path.join(distDir, 'types/routes.d.ts'))}\n`
+)
+
 // ==================== 第四步：构建客户端 JavaScript ====================
 console.log('4️⃣  构建客户端 JavaScript...')
 console.log('    先构建客户端代码，确保静态资源准备就绪\n')
@@ -65,17 +169,33 @@ console.log('    先构建客户端代码，确保静态资源准备就绪\n')
 try {
   // ✅ 优化：先使用 Vite 构建客户端代码
   // 这样可以避免 Vite 清空目录导致静态文件丢失
-  execSync('npx vite build', {
-    cwd: projectRoot,
-    stdio: 'inherit',
+  // 在当前进程中调用 Vite（仍然读取 vite.config.ts），以下配置来自 mini.config.ts：
+  // - base 决定构建产物中 CSS 引用的资源、动态加载的 chunk 等 URL 的前缀
+  // - 输出到 distDir/static，客户端入口通过别名收集 pagesDir 中的页面
+  const { build } = await import('vite')
+  await build({
+    root: projectRoot,
+    base: `${manifest.assetPrefix}/`,
+    build: { outDir: path.join(outputDir, 'static') },
+    resolve: { alias: [{ find: PAGES_ALIAS, replacement: pagesDir }] },
   })
-  console.log('  ✓ 客户端代码构建完成\n')
+  console.log('  ✓ 客户端代码构建完成')
 } catch (error) {
   const message = error instanceof Error ? error.message : String(error)
   console.error('❌ 客户端构建失败:', message)
   process.exit(1)
 }
 
+// 根据客户端产物计算 Build ID，预渲染的 __NEXT_DATA__ 和服务端都使用它
+const viteManifest = readViteManifest(path.join(outputDir, 'static'))
+manifest.clientEntry = getClientEntry(viteManifest)
+manifest.buildId = createBuildId(viteManifest, manifest)
+// 每个页面的 chunk 和 CSS，渲染 HTML 时输出 modulepreload 和 stylesheet
+manifest.pageAssets = collectPageAssets(viteManifest, manifest, projectRoot)
+
+console.log(`  ✓ Build ID: ${manifest.buildId}`)
+console.log(`  ✓ 客户端入口: ${manifest.clientEntry}\n`)
+
 // ==================== 第五步：预渲染 SSG 页面 ====================
 console.log('5️⃣  预渲染静态页面...')
 console.log('    策略: 默认静态生成（Static by default）\n')
@@ -85,8 +205,18 @@ let ssrCount = 0
 let ssgPureCount = 0 // 纯静态页面（无数据）
 let ssgDataCount = 0 // 带数据的静态页面
 let ssgDynamicCount = 0 // 动态路由静态页面
+let isrCount = 0 // 使用 revalidate 的路由（ISR）
+
+let apiCount = 0 // API 路由（运行时处理，不参与渲染）
+const renderErrors: string[] = [] // 预渲染时抛出的错误（getStaticProps / 组件渲染失败等）
 
 for (const route of manifest.routes) {
+  // API 路由不是页面，跳过静态生成
+  if (route.renderType === 'api') {
+    apiCount++
+    continue
+  }
+
   const result = await renderStaticPage(
     route,
     path.join(outputDir, 'static'),
@@ -97,6 +227,17 @@ for (const route of manifest.routes) {
   if (result.success) {
     // 标记为 SSG
     route.renderType = 'ssg'
+
+    // 记录动态路由的 fallback 模式（服务端据此处理未预生成的路径）
+    if (result.fallback !== undefined) {
+      route.fallback = result.fallback
+    }
+
+    // 记录 revalidate（ISR，服务端据此判断页面是否过期并设置缓存头）
+    if (result.revalidate !== undefined) {
+      route.revalidate = result.revalidate
+      isrCount++
+    }
     ssgCount += result.count || 1
 
     // 统计不同类型的 SSG 页面
@@ -107,6 +248,11 @@ for (const route of manifest.routes) {
     } else if (result.type === 'ssg-dynamic') {
       ssgDynamicCount += result.count || 1
     }
+  } else if (result.error) {
+    // 预渲染出错不能悄悄退回 SSR，否则问题要到运行时才会暴露
+    renderErrors.push(
+      `${route.path} (${path.relative(projectRoot, route.componentPath)}): ${result.error}`
+    )
   } else {
     // 标记为 SSR（运行时渲染）
     route.renderType = 'ssr'
@@ -114,15 +260,54 @@ for (const route of manifest.routes) {
   }
 }
 
+if (renderErrors.length > 0) {
+  console.error('\n❌ 预渲染失败，构建终止:')
+  renderErrors.forEach((message) => console.error(`  - ${message}`))
+  process.exit(1)
+}
+
 console.log(`\n📊 静态生成统计:`)
 console.log(`  ✓ 总计 SSG 页面: ${ssgCount} 个`)
 console.log(`    - 纯静态页面: ${ssgPureCount} 个`)
 console.log(`    - 带数据静态页面: ${ssgDataCount} 个`)
 console.log(`    - 动态路由静态页面: ${ssgDynamicCount} 个`)
-console.log(`  ⚠️  SSR 页面（运行时渲染）: ${ssrCount} 个\n`)
+console.log(`    - ISR 路由（revalidate）: ${isrCount} 个`)
+console.log(`  ⚠️  SSR 页面（运行时渲染）: ${ssrCount} 个`)
+console.log(`  🔌 API 路由: ${apiCount} 个\n`)
+
+// 预渲染错误页面（pages/404、pages/500）
+const errorPages = await renderErrorPages(path.join(outputDir, 'static'), manifest, projectRoot)
+
+if (errorPages.length > 0) {
+  console.log(`\n  ✓ 错误页面: ${errorPages.join(', ')}\n`)
+}
+
+// ==================== 第六步：体积报告 ====================
+console.log('6️⃣  统计客户端 JS 体积...\n')
+
+const routeSizes = collectRouteSizes(
+  manifest,
+  viteManifest,
+  path.join(outputDir, 'static'),
+  projectRoot
+)
+printSizeReport(routeSizes)
+
+// 超出 mini.config.ts 中的体积预算时构建失败
+const budgetViolations = checkBudgets(routeSizes, config.budgets)
+
+if (budgetViolations.length > 0) {
+  console.error('❌ 超出体积预算，构建终止:')
+  budgetViolations.forEach((message) => console.error(`  - ${message}`))
+  process.exit(1)
+}
+
+if (config.budgets) {
+  console.log('  ✓ 所有路由都在体积预算内\n')
+}
 
-// ==================== 第六步：保存清单文件 ====================
-console.log('6️⃣  保存清单文件...')
+// ==================== 第七步：保存清单文件 ====================
+console.log('7️⃣  保存清单文件...')
 
 const manifestPath = path.join(outputDir, 'manifest.json')
 fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2))
@@ -135,5 +320,7 @@ console.log('📊 构建统计:')
 console.log(`   - 总页面数: ${pages.length}`)
 console.log(`   - SSG 页面: ${ssgCount}`)
 console.log(`   - SSR 页面: ${ssrCount}`)
+console.log(`   - API 路由: ${apiCount}`)
+console.log(`   - Build ID: ${manifest.buildId}`)
 console.log(`   - 输出目录: ${outputDir}`)
 console.log('\n💡 运行 npm start 启动服务器\n')
@@ -8,9 +8,20 @@ import type {
   RenderResult,
   RenderSinglePageOptions,
   PageModule,
-  ClientRoute,
-  GenerateHTMLOptions,
+  RouteParams,
+  AppModule,
+  DocumentModule,
+  StaticPageData,
+  StaticRedirectData,
 } from '../types/index.js'
+import DefaultApp from '../client/app.js'
+import DefaultDocument from '../client/document.js'
+import { HeadManagerContext } from '../client/head.js'
+import { LocaleContext, getLocaleInfo } from '../client/i18n.js'
+import { BasePathContext } from '../client/base-path.js'
+import { TrailingSlashContext } from '../client/trailing-slash.js'
+import { loadSpecialComponent } from '../server/router.js'
+import { generateHTMLDocument } from '../server/render-ssr.js'
 
 /**
  * 静态页面渲染器
@@ -41,6 +52,10 @@ import type {
  * 4. 调用 getStaticProps 获取数据（如果存在）
  * 5. 渲染组件为 HTML
  * 6. 保存 HTML 和 JSON 文件
+ * 7. 汇总 getStaticProps 返回的 revalidate（ISR）
+ *
+ * 启用 i18n 时每种语言分别生成到 {outputDir}/{locale}/ 下；
+ * getStaticPaths 返回的路径带 locale 时只生成这种语言，否则生成所有语言
  *
  * @param route - 路由信息
  * @param outputDir - 输出目录
@@ -59,9 +74,22 @@ export async function renderStaticPage(
     const pageModule = (await import(`file://${path.resolve(route.componentPath)}`)) as PageModule
     const PageComponent = pageModule.default
 
+    // 加载 App 组件（pages/_app 或默认 App），用于包裹页面
+    const App = await loadSpecialComponent<AppModule>(manifest.specialPages.app, DefaultApp)
+
+    // 加载 Document 组件（pages/_document 或默认 Document），用于渲染 HTML 外壳
+    const Document = await loadSpecialComponent<DocumentModule>(
+      manifest.specialPages.document,
+      DefaultDocument
+    )
+
     // 检查页面导出的数据获取函数
     const { getStaticProps, getStaticPaths, getServerSideProps } = pageModule
 
+    // 要生成的语言（未启用 i18n 时只生成一次，输出路径不带语言）
+    const { i18n } = manifest
+    const locales = i18n?.locales ?? [undefined]
+
     // ✅ 核心改进：检查是否明确要求 SSR
     if (getServerSideProps) {
       console.log(`⚠️  ${route.path} 使用 getServerSideProps，跳过静态生成 → SSR`)
@@ -82,50 +110,79 @@ export async function renderStaticPage(
       }
 
       // 调用 getStaticPaths 获取所有需要生成的路径
-      const { paths } = await getStaticPaths()
+      // fallback 决定运行时如何处理未预生成的路径（false: 404，true / 'blocking': 按需生成）
+      const { paths, fallback = false } = await getStaticPaths({
+        locales: i18n?.locales,
+        defaultLocale: i18n?.defaultLocale,
+      })
+      const pages = paths.flatMap((pathObj) =>
+        (pathObj.locale ? [pathObj.locale] : locales).map((locale) => ({
+          params: pathObj.params,
+          locale,
+        }))
+      )
+
+      console.log(`\n📝 生成动态路由 ${route.path} 的 ${pages.length} 个页面...`)
 
-      console.log(`\n📝 生成动态路由 ${route.path} 的 ${paths.length} 个页面...`)
+      // 为每个路径生成页面，路由的 revalidate 取所有路径中最小的间隔
+      let revalidate: number | false = false
 
-      // 为每个路径生成页面
-      for (const pathObj of paths) {
-        await renderSinglePage({
+      for (const { params, locale } of pages) {
+        const pathRevalidate = await renderSinglePage({
           route,
           PageComponent,
+          App,
+          Document,
           getStaticProps,
-          params: pathObj.params,
+          params,
+          locale,
           outputDir,
           manifest,
           projectRoot,
         })
+
+        revalidate = minRevalidate(revalidate, pathRevalidate)
       }
 
-      return { success: true, count: paths.length, type: 'ssg-dynamic' }
+      return {
+        success: true,
+        count: pages.length,
+        type: 'ssg-dynamic',
+        fallback,
+        revalidate: revalidate || undefined,
+      }
     }
 
     // ✅ 静态路由：默认进行静态生成
     console.log(`\n📝 生成静态页面 ${route.path}...`)
 
-    let pageProps: any = {}
+    // 有 getStaticProps 时调用它获取数据，否则是纯静态页面，使用空 props
+    let revalidate: number | false = false
 
-    // 如果有 getStaticProps，调用它获取数据
-    if (getStaticProps) {
-      const result = await getStaticProps({ params: {} })
-      pageProps = result.props || {}
+    for (const locale of locales) {
+      const localeRevalidate = await renderSinglePage({
+        route,
+        PageComponent,
+        App,
+        Document,
+        getStaticProps,
+        params: {},
+        locale,
+        outputDir,
+        manifest,
+        projectRoot,
+      })
+
+      revalidate = minRevalidate(revalidate, localeRevalidate)
     }
-    // else: 纯静态页面，使用空 props
-
-    await renderSinglePage({
-      route,
-      PageComponent,
-      props: pageProps,
-      params: {},
-      outputDir,
-      manifest,
-      projectRoot,
-    })
 
     const renderType = getStaticProps ? 'ssg-with-data' : 'ssg-pure'
-    return { success: true, count: 1, type: renderType }
+    return {
+      success: true,
+      count: locales.length,
+      type: renderType,
+      revalidate: revalidate || undefined,
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
     console.error(`❌ 渲染 ${route.path} 失败:`, message)
@@ -133,29 +190,188 @@ export async function renderStaticPage(
   }
 }
 
+/**
+ * 按需生成单个静态路径
+ *
+ * 服务端在运行时调用，和构建时走同一套渲染逻辑：
+ * - getStaticPaths 的 fallback: true / 'blocking'：生成构建时没有预生成的路径
+ * - ISR：页面过期（超过 revalidate 秒）后在后台重新生成
+ *
+ * 生成的 HTML / JSON 写入输出目录，之后的请求直接读取静态文件
+ *
+ * @param route - 路由信息
+ * @param params - 路由参数
+ * @param outputDir - 输出目录
+ * @param manifest - 完整的路由清单
+ * @param projectRoot - 项目根目录
+ * @param locale - 语言（启用 i18n 时）
+ * @returns getStaticProps 返回的 revalidate
+ */
+export async function renderStaticPath(
+  route: Route,
+  params: RouteParams,
+  outputDir: string,
+  manifest: RouteManifest,
+  projectRoot: string,
+  locale?: string
+): Promise<number | false> {
+  const pageModule = (await import(`file://${path.resolve(route.componentPath)}`)) as PageModule
+
+  return renderSinglePage({
+    route,
+    PageComponent: pageModule.default,
+    App: await loadSpecialComponent<AppModule>(manifest.specialPages.app, DefaultApp),
+    Document: await loadSpecialComponent<DocumentModule>(
+      manifest.specialPages.document,
+      DefaultDocument
+    ),
+    getStaticProps: pageModule.getStaticProps,
+    params,
+    locale,
+    outputDir,
+    manifest,
+    projectRoot,
+  })
+}
+
+/**
+ * 预渲染错误页面（pages/404 和 pages/500）
+ *
+ * 错误页面不是普通路由，但和 SSG 页面一样在构建时生成：
+ * - /404.html + /404.json：路由匹配失败时返回
+ * - /500.html + /500.json：渲染出错时返回
+ *
+ * 错误页面可以使用 getStaticProps（没有 params），不能使用 getServerSideProps
+ * 没有提供的错误页面会在运行时由 _error 或默认错误组件渲染
+ *
+ * @param outputDir - 输出目录
+ * @param manifest - 完整的路由清单
+ * @param projectRoot - 项目根目录
+ * @returns 生成的错误页面路径列表
+ */
+export async function renderErrorPages(
+  outputDir: string,
+  manifest: RouteManifest,
+  projectRoot: string
+): Promise<string[]> {
+  const errorPages = [
+    { page: '/404', filePath: manifest.specialPages.notFound },
+    { page: '/500', filePath: manifest.specialPages.serverError },
+  ]
+
+  const rendered: string[] = []
+
+  for (const { page, filePath } of errorPages) {
+    if (!filePath) continue
+
+    try {
+      const pageModule = (await import(`file://${path.resolve(filePath)}`)) as PageModule
+
+      if (pageModule.getServerSideProps) {
+        console.error(`❌ ${page} 不能使用 getServerSideProps，错误页面必须可以静态生成`)
+        continue
+      }
+
+      console.log(`\n📝 生成错误页面 ${page}...`)
+
+      // 错误页面没有对应的路由，构造一个只用于渲染的路由对象
+      const route: Route = {
+        path: page,
+        componentPath: filePath,
+        pattern: `^${page}$`,
+        paramNames: [],
+        isDynamic: false,
+        renderType: 'ssg',
+      }
+
+      await renderSinglePage({
+        route,
+        PageComponent: pageModule.default,
+        App: await loadSpecialComponent<AppModule>(manifest.specialPages.app, DefaultApp),
+        Document: await loadSpecialComponent<DocumentModule>(
+          manifest.specialPages.document,
+          DefaultDocument
+        ),
+        getStaticProps: pageModule.getStaticProps,
+        params: {},
+        outputDir,
+        manifest,
+        projectRoot,
+      })
+
+      rendered.push(page)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`❌ 渲染错误页面 ${page} 失败:`, message)
+    }
+  }
+
+  return rendered
+}
+
 /**
  * 渲染单个页面
  *
  * ✨ 改进：支持动态路由和纯静态页面
  *
+ * getStaticProps 也可以不渲染页面：
+ * - { notFound: true }: 不生成文件（运行时重新生成时删除旧文件），请求返回 404
+ * - { redirect }: 只生成记录重定向的 .json，服务端返回 307 / 308，客户端路由跟随跳转
+ *
  * @param options - 渲染选项
+ * @returns getStaticProps 返回的 revalidate（没有返回时为 false）
  */
 async function renderSinglePage({
   route,
   PageComponent,
+  App,
+  Document,
   getStaticProps,
   props,
   params,
+  locale,
   outputDir,
   manifest,
   projectRoot,
-}: RenderSinglePageOptions): Promise<void> {
+}: RenderSinglePageOptions): Promise<number | false> {
+  // 确定输出文件路径（每种语言一个目录）
+  const outputPath = getOutputPath(route.path, params, locale)
+  const fullOutputPath = path.join(outputDir, outputPath)
+  const htmlPath = getHtmlPath(fullOutputPath, manifest.trailingSlash)
+
   // 1. 获取页面数据
   let pageProps = props
+  let revalidate: number | false = false
 
   // 如果没有直接传入 props，且有 getStaticProps，则调用它
   if (pageProps === undefined && getStaticProps) {
-    const result = await getStaticProps({ params })
+    const result = await getStaticProps({ params, ...getLocaleInfo(manifest.i18n, locale) })
+    revalidate = normalizeRevalidate(result.revalidate, route.path)
+
+    // 页面不存在：不生成文件
+    if ('notFound' in result) {
+      fs.rmSync(`${fullOutputPath}.json`, { force: true })
+      fs.rmSync(htmlPath, { force: true })
+      console.log(`  ⊘ ${outputPath}（notFound，不生成页面）`)
+      return revalidate
+    }
+
+    // 重定向：只写入重定向信息，先写 .json 再删除旧的 .html
+    if ('redirect' in result) {
+      const { destination, permanent } = result.redirect
+      const redirectData: StaticRedirectData = {
+        redirect: { destination, statusCode: permanent ? 308 : 307 },
+        revalidate,
+        generatedAt: Date.now(),
+      }
+
+      fs.mkdirSync(path.dirname(fullOutputPath), { recursive: true })
+      writeFilesAtomic([[`${fullOutputPath}.json`, JSON.stringify(redirectData)]])
+      fs.rmSync(htmlPath, { force: true })
+      console.log(`  ↪ ${outputPath}.json（重定向到 ${destination}）`)
+      return revalidate
+    }
+
     pageProps = result.props || {}
   }
 
@@ -164,88 +380,141 @@ async function renderSinglePage({
     pageProps = {}
   }
 
-  // 2. 使用 ReactDOMServer 渲染组件为 HTML 字符串
-  const appHtml = ReactDOMServer.renderToString(React.createElement(PageComponent, pageProps))
+  // 2. 使用 ReactDOMServer 渲染组件为 HTML 字符串（页面由 App 组件包裹）
+  // 渲染过程中 <Head> 的 children 收集到 head 中，Link 从 context 读取当前语言、basePath 和 trailingSlash
+  const head: React.ReactElement[] = []
+  const localeInfo = getLocaleInfo(manifest.i18n, locale)
+  const appHtml = ReactDOMServer.renderToString(
+    React.createElement(
+      HeadManagerContext.Provider,
+      { value: head },
+      React.createElement(
+        LocaleContext.Provider,
+        { value: localeInfo },
+        React.createElement(
+          BasePathContext.Provider,
+          { value: manifest.basePath },
+          React.createElement(
+            TrailingSlashContext.Provider,
+            { value: manifest.trailingSlash },
+            React.createElement(App, { Component: PageComponent, pageProps })
+          )
+        )
+      )
+    )
+  )
 
   // 3. 生成完整的 HTML 文档
   const html = generateHTMLDocument({
+    Document,
     appHtml,
+    head,
     pageProps,
     route: route.path,
     params,
+    locale,
     manifest,
     projectRoot,
   })
 
-  // 4. 确定输出文件路径
-  const outputPath = getOutputPath(route.path, params)
-  const fullOutputPath = path.join(outputDir, outputPath)
-
-  // 5. 创建输出目录
-  const dir = path.dirname(fullOutputPath)
-  fs.mkdirSync(dir, { recursive: true })
-
-  // 6. 保存 HTML 文件
-  fs.writeFileSync(`${fullOutputPath}.html`, html)
-  console.log(`  ✓ ${outputPath}.html`)
+  // 4. 创建输出目录（trailingSlash 时 HTML 在页面同名的目录中，JSON 在它的上一级）
+  fs.mkdirSync(path.dirname(htmlPath), { recursive: true })
 
-  // 7. 保存 JSON 数据文件（用于客户端路由）
-  const jsonData = {
+  // 5. JSON 数据文件（用于客户端路由）
+  // revalidate 和 generatedAt 供服务端判断页面是否过期
+  const jsonData: StaticPageData = {
     pageProps,
     query: params,
+    revalidate,
+    generatedAt: Date.now(),
   }
-  fs.writeFileSync(`${fullOutputPath}.json`, JSON.stringify(jsonData))
+
+  // 6. 保存 HTML 和 JSON 文件
+  // 运行时重新生成（ISR）会覆盖正在被读取的文件，两个文件一起写临时文件再替换，
+  // 避免请求读到新的 HTML 和旧的 JSON（hydrate 与客户端导航拿到不同的 props）
+  writeFilesAtomic([
+    [htmlPath, html],
+    [`${fullOutputPath}.json`, JSON.stringify(jsonData)],
+  ])
+  console.log(`  ✓ ${path.relative(outputDir, htmlPath)}`)
   console.log(`  ✓ ${outputPath}.json`)
+
+  return revalidate
 }
 
 /**
- * 生成完整的 HTML 文档
+ * 校验 getStaticProps 返回的 revalidate
  *
- * @param options - 选项
- * @returns HTML 字符串
+ * @param revalidate - getStaticProps 返回的值
+ * @param routePath - 路由路径（用于错误信息）
+ * @returns 秒数，不需要重新生成时为 false
  */
-function generateHTMLDocument({
-  appHtml,
-  pageProps,
-  route,
-  params,
-  manifest,
-  projectRoot,
-}: GenerateHTMLOptions): string {
-  // 生成客户端路由清单（精简版）
-  const clientManifest: ClientRoute[] = manifest.routes.map((r) => ({
-    path: r.path,
-    // 转换为相对于 pages 目录的路径
-    componentPath: r.componentPath.replace(projectRoot, '').replace('/pages', ''),
-    isDynamic: r.isDynamic,
-    paramNames: r.paramNames,
-  }))
-
-  // __NEXT_DATA__ 是 Next.js 用来传递服务端数据到客户端的机制
-  // 客户端会读取这个数据进行水合
-  const nextData = {
-    props: { pageProps },
-    page: route,
-    query: params,
-    buildId: 'static',
-    // ✅ 注入路由清单，供客户端使用
-    manifest: clientManifest,
+function normalizeRevalidate(
+  revalidate: number | false | undefined,
+  routePath: string
+): number | false {
+  if (revalidate === undefined || revalidate === false) {
+    return false
   }
 
-  return `<!DOCTYPE html>
-<html lang="zh-CN">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Mini Next.js</title>
-  <link rel="stylesheet" href="/styles.css">
-</head>
-<body>
-  <div id="__next">${appHtml}</div>
-  <script id="__NEXT_DATA__" type="application/json">${JSON.stringify(nextData)}</script>
-  <script type="module" src="/client.js"></script>
-</body>
-</html>`
+  if (!Number.isInteger(revalidate) || revalidate < 1) {
+    throw new Error(
+      `${routePath} 的 getStaticProps 返回了无效的 revalidate: ${revalidate}（必须是大于 0 的整数秒或 false）`
+    )
+  }
+
+  return revalidate
+}
+
+/**
+ * 取两个 revalidate 中更短的间隔（false 表示永不过期）
+ *
+ * @param a - revalidate
+ * @param b - revalidate
+ * @returns 更短的间隔
+ */
+function minRevalidate(a: number | false, b: number | false): number | false {
+  if (a === false) return b
+  if (b === false) return a
+  return Math.min(a, b)
+}
+
+/**
+ * 原子写入一组文件
+ *
+ * 先把所有内容写入同目录下的临时文件，全部写完后再依次 rename 覆盖目标文件：
+ * 读取方要么读到旧文件，要么读到完整的新文件，不会读到写了一半的内容；
+ * 耗时的写入都在替换之前完成，同一页面的 HTML 和 JSON 几乎同时切换到新版本
+ *
+ * @param files - [目标文件路径, 文件内容]
+ */
+function writeFilesAtomic(files: [filePath: string, content: string][]): void {
+  const suffix = `${process.pid}.${Date.now()}.tmp`
+  const tempFiles = files.map(([filePath, content]) => {
+    const tempPath = `${filePath}.${suffix}`
+    fs.writeFileSync(tempPath, content)
+    return [tempPath, filePath] as const
+  })
+
+  tempFiles.forEach(([tempPath, filePath]) => fs.renameSync(tempPath, filePath))
+}
+
+/**
+ * 页面 HTML 文件的路径
+ *
+ * - trailingSlash: false -> /about.html
+ * - trailingSlash: true -> /about/index.html（/index、/en/index 这样的首页仍然是 index.html）
+ *
+ * JSON 数据文件不受影响，始终是 {outputPath}.json
+ *
+ * @param outputPath - 输出文件路径（不含扩展名，见 getOutputPath）
+ * @param trailingSlash - 页面 URL 是否以 / 结尾
+ * @returns HTML 文件路径
+ */
+export function getHtmlPath(outputPath: string, trailingSlash: boolean): string {
+  return trailingSlash && !/(^|[/\\])index$/.test(outputPath)
+    ? path.join(outputPath, 'index.html')
+    : `${outputPath}.html`
 }
 
 /**
@@ -256,24 +525,33 @@ function generateHTMLDocument({
  * - /about -> /about
  * - /blog/:id + {id: '123'} -> /blog/123
  * - /blog/:category/:id + {category: 'tech', id: '123'} -> /blog/tech/123
+ * - /docs/:slug+ + {slug: ['a', 'b']} -> /docs/a/b
+ * - /docs/:slug* + {slug: []} -> /docs
+ * - /about + locale 'en' -> /en/about
  *
  * @param routePath - 路由路径
  * @param params - 参数对象
+ * @param locale - 语言（启用 i18n 时输出到语言目录，如 /en/about）
  * @returns 输出路径
  */
-function getOutputPath(routePath: string, params: Record<string, string>): string {
+function getOutputPath(routePath: string, params: RouteParams, locale?: string): string {
   let outputPath = routePath
 
   // 替换所有动态参数（支持多个参数）
   for (const [key, value] of Object.entries(params)) {
+    // catch-all 参数是数组，按 / 拼接为多级路径
+    const segment = Array.isArray(value) ? value.join('/') : value
     // 使用全局替换，确保所有匹配的参数都被替换
-    outputPath = outputPath.replace(new RegExp(`:${key}`, 'g'), value)
+    outputPath = outputPath.replace(new RegExp(`:${key}[+*]?(?=/|$)`, 'g'), segment)
   }
 
+  // 空的可选 catch-all 会留下末尾的 /（/docs/ -> /docs）
+  outputPath = outputPath.replace(/\/+$/, '') || '/'
+
   // 处理根路径
   if (outputPath === '/') {
-    return '/index'
+    outputPath = '/index'
   }
 
-  return outputPath
+  return locale ? `/${locale}${outputPath}` : outputPath
 }
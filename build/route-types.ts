@@ -0,0 +1,160 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import type { Route, RouteManifest } from '../types/index.js'
+
+/**
+ * 生成路由类型声明（{distDir}/types/routes.d.ts，默认 .next/types/routes.d.ts）
+ *
+ * 通过模块扩展（declare module）填充 types/index.ts 中的 RouteRegistry，
+ * Link 的 href、router.push / replace 的参数随之只接受存在的路由：
+ *
+ * ```ts
+ * <Link href="/blog/1">                                       // ✅ 匹配 /blog/${string}
+ * <Link href="/blgo/1">                                       // ❌ 类型错误
+ * <Link href={{ pathname: '/blog/[id]', query: { id: '1' } }}> // ✅ 检查参数
+ * ```
+ *
+ * 构建时和开发服务器扫描页面目录时重新生成；还没有生成时 href 仍然是 string
+ */
+
+/**
+ * 声明文件相对于构建输出目录的路径（tsconfig.json 的 include 包含 .next/types）
+ */
+const ROUTE_TYPES_FILE = 'types/routes.d.ts'
+
+/**
+ * 被扩展的类型模块（types/index.ts）
+ */
+const TYPES_MODULE = fileURLToPath(new URL('../types/index.js', import.meta.url))
+
+/**
+ * 写入路由类型声明
+ *
+ * @param manifest - 路由清单
+ * @param distDir - 构建输出目录
+ */
+export function writeRouteTypes(manifest: RouteManifest, distDir: string): void {
+  const filePath = path.join(distDir, ROUTE_TYPES_FILE)
+  const typesModule = path.relative(path.dirname(filePath), TYPES_MODULE).split(path.sep).join('/')
+  const content = generateRouteTypes(manifest, typesModule)
+
+  // 内容不变时不写入，避免编辑器和 tsc --watch 重复检查
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === content) {
+    return
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, content)
+}
+
+/**
+ * 生成声明文件内容
+ *
+ * @param manifest - 路由清单
+ * @param typesModule - 声明文件到 types/index.js 的相对路径
+ * @returns .d.ts 源码
+ */
+export function generateRouteTypes(
+  manifest: RouteManifest,
+  typesModule = '../../types/index.js'
+): string {
+  // API 路由不是页面，不能用于客户端导航
+  const routes = manifest.routes.filter((route) => route.renderType !== 'api')
+
+  const routeEntries = routes.map(
+    (route) => `      '${toPathname(route.path)}': ${toParamsType(route)}`
+  )
+  const hrefs = routes.flatMap(toHrefTypes)
+
+  return [
+    '// 此文件根据路由清单自动生成，请勿手动修改',
+    '// npm run build / npm run dev 时更新',
+    '',
+    'export {}',
+    '',
+    `declare module '${typesModule}' {`,
+    '  interface RouteRegistry {',
+    '    routes: {',
+    ...routeEntries,
+    '    }',
+    `    hrefs: ${hrefs.length > 0 ? hrefs.join(' | ') : 'never'}`,
+    '  }',
+    '}',
+    '',
+  ].join('\n')
+}
+
+/**
+ * 路由路径转换为文件系统形式的 pathname（对象形式的 href 使用）
+ *
+ * - /blog/:id -> /blog/[id]
+ * - /docs/:slug+ -> /docs/[...slug]
+ * - /docs/:slug* -> /docs/[[...slug]]
+ *
+ * @param routePath - 路由路径
+ * @returns pathname
+ */
+function toPathname(routePath: string): string {
+  return routePath
+    .split('/')
+    .map((segment) => {
+      if (!segment.startsWith(':')) return segment
+      if (segment.endsWith('*')) return `[[...${segment.slice(1, -1)}]]`
+      if (segment.endsWith('+')) return `[...${segment.slice(1, -1)}]`
+      return `[${segment.slice(1)}]`
+    })
+    .join('/')
+}
+
+/**
+ * 路由参数的类型（与服务端解析出的 RouteParams 一致，catch-all 参数为数组）
+ *
+ * @param route - 路由
+ * @returns 类型字面量，如 { id: string }
+ */
+function toParamsType(route: Route): string {
+  const fields = route.path
+    .split('/')
+    .filter((segment) => segment.startsWith(':'))
+    .map((segment) => {
+      if (segment.endsWith('*')) return `${toKey(segment.slice(1, -1))}?: string[]`
+      if (segment.endsWith('+')) return `${toKey(segment.slice(1, -1))}: string[]`
+      return `${toKey(segment.slice(1))}: string`
+    })
+
+  return fields.length > 0 ? `{ ${fields.join('; ')} }` : '{}'
+}
+
+/**
+ * @param name - 参数名
+ * @returns 属性名（不是合法标识符时加引号）
+ */
+function toKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`
+}
+
+/**
+ * 路由可以接受的字符串 href（模板字面量类型）
+ *
+ * - /about -> '/about'
+ * - /blog/:id -> `/blog/${string}`
+ * - /docs/:slug* -> '/docs' | `/docs/${string}`
+ *
+ * @param route - 路由
+ * @returns 类型字面量列表
+ */
+function toHrefTypes(route: Route): string[] {
+  const segments = route.path.split('/').filter(Boolean)
+  const toType = (parts: string[]): string => {
+    const href = '/' + parts.map((part) => (part.startsWith(':') ? '${string}' : part)).join('/')
+    return href.includes('${string}') ? `\`${href}\`` : `'${href}'`
+  }
+
+  // 可选 catch-all 也匹配没有参数的上一级路径
+  if (segments.at(-1)?.endsWith('*')) {
+    return [toType(segments.slice(0, -1)), toType(segments)]
+  }
+
+  return [toType(segments)]
+}
@@ -1,6 +1,11 @@
 import fs from 'fs'
 import path from 'path'
-import type { PageMetadata } from '../types/index.js'
+import type { PageMetadata, SpecialPages } from '../types/index.js'
+
+/**
+ * 根目录下作为错误页面的文件名（不生成路由）
+ */
+const ERROR_PAGE_NAMES = ['404', '500']
 
 /**
  * 扫描 pages 目录，收集所有页面文件
@@ -39,12 +44,18 @@ export function scanPages(pagesDir: string): PageMetadata[] {
       }
 
       // 跳过以 _ 开头的特殊文件（_app.jsx, _document.jsx）
-      // 这些文件在 Next.js 中有特殊用途，本示例暂不实现
+      // 这些文件不是路由，由 scanSpecialPages 单独收集
       const fileName = path.basename(file, ext)
       if (fileName.startsWith('_')) {
         continue
       }
 
+      // 跳过根目录下的错误页面（404.jsx, 500.jsx）
+      // 它们会被预渲染为 404.html / 500.html，而不是普通路由
+      if (basePath === '' && ERROR_PAGE_NAMES.includes(fileName)) {
+        continue
+      }
+
       // 生成路由路径
       const routePath = generateRoutePath(basePath, fileName)
 
@@ -55,6 +66,9 @@ export function scanPages(pagesDir: string): PageMetadata[] {
       // 提取动态参数名（从完整的相对路径中提取，支持嵌套）
       const paramNames = isDynamic ? extractParamNames(fullRelativePath) : []
 
+      // pages/api 下的文件是 API 路由，导出 (req, res) 处理函数而不是 React 组件
+      const isApi = basePath.split(path.sep)[0] === 'api'
+
       pages.push({
         // 文件的完整路径
         filePath: fullPath,
@@ -66,6 +80,8 @@ export function scanPages(pagesDir: string): PageMetadata[] {
         isDynamic,
         // 动态参数名列表
         paramNames,
+        // 是否为 API 路由
+        isApi,
       })
     }
   }
@@ -74,6 +90,46 @@ export function scanPages(pagesDir: string): PageMetadata[] {
   return pages
 }
 
+/**
+ * 查找 pages 目录下的特殊文件
+ *
+ * 特殊文件只在 pages 根目录下生效，不会生成路由：
+ * - _app.jsx -> 包裹所有页面的 App 组件
+ * - _document.jsx -> 渲染 HTML 外壳的 Document 组件
+ * - 404.jsx / 500.jsx -> 构建时预渲染的错误页面
+ * - _error.jsx -> 运行时渲染的通用错误页面（接收 statusCode）
+ *
+ * @param pagesDir - pages 目录的路径
+ * @returns 特殊文件路径（不存在时为 null）
+ */
+export function scanSpecialPages(pagesDir: string): SpecialPages {
+  return {
+    app: findPageFile(pagesDir, '_app'),
+    document: findPageFile(pagesDir, '_document'),
+    notFound: findPageFile(pagesDir, '404'),
+    serverError: findPageFile(pagesDir, '500'),
+    error: findPageFile(pagesDir, '_error'),
+  }
+}
+
+/**
+ * 在目录下查找指定名称的页面文件（依次尝试 .tsx, .jsx, .ts, .js）
+ *
+ * @param dir - 目录路径
+ * @param name - 文件名（不含扩展名）
+ * @returns 文件完整路径，不存在时为 null
+ */
+function findPageFile(dir: string, name: string): string | null {
+  for (const ext of ['.tsx', '.jsx', '.ts', '.js']) {
+    const filePath = path.join(dir, `${name}${ext}`)
+    if (fs.existsSync(filePath)) {
+      return filePath
+    }
+  }
+
+  return null
+}
+
 /**
  * 根据文件路径生成路由路径
  *
@@ -83,6 +139,8 @@ export function scanPages(pagesDir: string): PageMetadata[] {
  * - blog/index.jsx -> /blog
  * - blog/[id].jsx -> /blog/:id
  * - blog/[category]/[id].jsx -> /blog/:category/:id (嵌套动态路由)
+ * - docs/[...slug].jsx -> /docs/:slug+ (catch-all，匹配一个或多个片段)
+ * - docs/[[...slug]].jsx -> /docs/:slug* (可选 catch-all，匹配零个或多个片段)
  *
  * @param basePath - 基础路径
  * @param fileName - 文件名（不含扩展名）
@@ -95,10 +153,10 @@ function generateRoutePath(basePath: string, fileName: string): string {
   }
 
   // 将基础路径中的 [param] 也转换为 :param（支持嵌套动态路由）
-  const convertedBasePath = basePath.replace(/\[(.+?)\]/g, ':$1')
+  const convertedBasePath = convertDynamicSegments(basePath)
 
   // 将 [id] 格式转换为 :id 格式（Express 路由格式）
-  const routeSegment = fileName.replace(/\[(.+?)\]/g, ':$1')
+  const routeSegment = convertDynamicSegments(fileName)
 
   // 组合完整路径
   const fullPath = convertedBasePath === '' ? routeSegment : `${convertedBasePath}/${routeSegment}`
@@ -106,6 +164,26 @@ function generateRoutePath(basePath: string, fileName: string): string {
   return `/${fullPath}`
 }
 
+/**
+ * 将文件路径中的动态片段转换为路由参数
+ *
+ * 顺序很重要：必须先处理 [[...slug]]，再处理 [...slug]，最后是 [id]，
+ * 否则 [id] 的规则会吃掉 catch-all 的方括号
+ *
+ * - [[...slug]] -> :slug*
+ * - [...slug] -> :slug+
+ * - [id] -> :id
+ *
+ * @param segment - 文件路径片段
+ * @returns 转换后的路由片段
+ */
+function convertDynamicSegments(segment: string): string {
+  return segment
+    .replace(/\[\[\.\.\.(.+?)\]\]/g, ':$1*')
+    .replace(/\[\.\.\.(.+?)\]/g, ':$1+')
+    .replace(/\[(.+?)\]/g, ':$1')
+}
+
 /**
  * 从文件路径中提取动态参数名（支持嵌套动态路由）
  *
@@ -114,12 +192,13 @@ function generateRoutePath(basePath: string, fileName: string): string {
  * - [category]/[id].jsx -> ['category', 'id']
  * - blog/[category]/[id].jsx -> ['category', 'id']
  * - [...slug].jsx -> ['slug'] (catch-all routes)
+ * - [[...slug]].jsx -> ['slug'] (optional catch-all routes)
  *
  * @param filePath - 完整文件路径或文件名
  * @returns 参数名数组
  */
 function extractParamNames(filePath: string): string[] {
-  const matches = filePath.matchAll(/\[\.{0,3}(.+?)\]/g)
+  const matches = filePath.matchAll(/\[{1,2}(?:\.{3})?([^[\]]+?)\]{1,2}/g)
   return Array.from(matches, (match) => match[1]!)
 }
 
@@ -136,6 +215,10 @@ export function printScanResult(pages: PageMetadata[]): void {
     console.log(`文件: ${page.filePath}`)
     console.log(`动态: ${page.isDynamic ? '是' : '否'}`)
 
+    if (page.isApi) {
+      console.log('类型: API 路由')
+    }
+
     if (page.isDynamic) {
       console.log(`参数: ${page.paramNames.join(', ')}`)
     }
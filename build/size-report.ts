@@ -0,0 +1,156 @@
+import fs from 'fs'
+import path from 'path'
+import zlib from 'zlib'
+import type { Manifest } from 'vite'
+import { CLIENT_ENTRY_SRC, getChunkFiles } from './vite-manifest.js'
+import type { FileSize, RouteManifest, RouteSizeInfo, SizeBudgets } from '../types/index.js'
+
+/**
+ * 每个路由的客户端 JS 体积报告
+ *
+ * 根据 Vite 构建清单计算每个页面首次加载需要的 JS：
+ * - 页面：页面自己的 chunk，以及只有它用到的静态导入
+ * - 共享：客户端入口和它的静态导入，所有页面都会加载
+ * - 首次加载 = 页面 + 共享
+ *
+ * 体积预算（mini.config.ts 的 budgets）按 gzip 后的大小检查
+ */
+
+/**
+ * 计算每个页面路由的体积
+ *
+ * @param manifest - 路由清单（需要已经确定 renderType）
+ * @param viteManifest - Vite 构建清单
+ * @param staticDir - Vite 输出目录
+ * @param projectRoot - 项目根目录
+ * @returns 每个路由的体积（API 路由没有客户端代码，不包含在内）
+ */
+export function collectRouteSizes(
+  manifest: RouteManifest,
+  viteManifest: Manifest,
+  staticDir: string,
+  projectRoot: string
+): RouteSizeInfo[] {
+  // 同一个文件在多个路由中出现，只读取和压缩一次
+  const sizeCache = new Map<string, FileSize>()
+  const sizeOf = (files: string[]): FileSize =>
+    files.reduce(
+      (total, file) => {
+        let size = sizeCache.get(file)
+
+        if (!size) {
+          const content = fs.readFileSync(path.join(staticDir, file))
+          size = { raw: content.length, gzip: zlib.gzipSync(content).length }
+          sizeCache.set(file, size)
+        }
+
+        return { raw: total.raw + size.raw, gzip: total.gzip + size.gzip }
+      },
+      { raw: 0, gzip: 0 }
+    )
+
+  const sharedFiles = getChunkFiles(viteManifest, CLIENT_ENTRY_SRC).js
+  const shared = sizeOf(sharedFiles)
+
+  return manifest.routes
+    .filter((route) => route.renderType === 'ssg' || route.renderType === 'ssr')
+    .map((route) => {
+      // Vite 清单的 key 是相对于项目根目录的源文件路径
+      const src = path.relative(projectRoot, route.componentPath).split(path.sep).join('/')
+      const pageFiles = getChunkFiles(viteManifest, src).js.filter(
+        (file) => !sharedFiles.includes(file)
+      )
+      const page = sizeOf(pageFiles)
+
+      return {
+        path: route.path,
+        componentPath: route.componentPath,
+        renderType:
+          route.renderType === 'ssr' ? 'SSR' : route.revalidate !== undefined ? 'ISR' : 'SSG',
+        page,
+        shared,
+        firstLoad: { raw: page.raw + shared.raw, gzip: page.gzip + shared.gzip },
+      }
+    })
+}
+
+/**
+ * 打印体积报告
+ *
+ * @param sizes - 每个路由的体积
+ */
+export function printSizeReport(sizes: RouteSizeInfo[]): void {
+  const rows = sizes.map((size) => [
+    size.path,
+    size.renderType,
+    formatFileSize(size.page),
+    formatFileSize(size.shared),
+    formatFileSize(size.firstLoad),
+  ])
+  const header = ['路由', '类型', '页面', '共享', '首次加载']
+  const widths = header.map((title, i) =>
+    Math.max(displayWidth(title), ...rows.map((row) => displayWidth(row[i]!)))
+  )
+  const format = (row: string[]): string =>
+    (
+      '  ' + row.map((cell, i) => cell + ' '.repeat(widths[i]! - displayWidth(cell))).join('  ')
+    ).trimEnd()
+
+  console.log('📦 客户端 JS 体积（原始大小 / gzip）:\n')
+  console.log(format(header))
+  rows.forEach((row) => console.log(format(row)))
+  console.log()
+}
+
+/**
+ * 检查体积预算
+ *
+ * @param sizes - 每个路由的体积
+ * @param budgets - 体积预算
+ * @returns 超出预算的说明，为空表示全部通过
+ */
+export function checkBudgets(sizes: RouteSizeInfo[], budgets: SizeBudgets = {}): string[] {
+  const violations: string[] = []
+
+  for (const size of sizes) {
+    if (budgets.firstLoadJs !== undefined && size.firstLoad.gzip > budgets.firstLoadJs) {
+      violations.push(
+        `${size.path} 首次加载 ${formatBytes(size.firstLoad.gzip)}，超出预算 ${formatBytes(budgets.firstLoadJs)}`
+      )
+    }
+
+    if (budgets.pageJs !== undefined && size.page.gzip > budgets.pageJs) {
+      violations.push(
+        `${size.path} 页面 JS ${formatBytes(size.page.gzip)}，超出预算 ${formatBytes(budgets.pageJs)}`
+      )
+    }
+  }
+
+  return violations
+}
+
+/**
+ * @param size - 文件大小
+ * @returns 如 147.2 kB / 47.5 kB
+ */
+function formatFileSize(size: FileSize): string {
+  return `${formatBytes(size.raw)} / ${formatBytes(size.gzip)}`
+}
+
+/**
+ * @param bytes - 字节数
+ * @returns 如 1.5 kB
+ */
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`
+}
+
+/**
+ * 终端中的显示宽度（中文字符占两列），用于对齐表格
+ *
+ * @param text - 文本
+ * @returns 显示宽度
+ */
+function displayWidth(text: string): number {
+  return [...text].reduce((width, char) => width + (/[\u4e00-\u9fff]/.test(char) ? 2 : 1), 0)
+}
@@ -0,0 +1,67 @@
+import path from 'path'
+import { normalizePath } from 'vite'
+import type { Plugin } from 'vite'
+import { PAGES_ALIAS } from './config.js'
+
+/**
+ * Vite 插件：去掉页面在客户端的数据函数导出
+ *
+ * getStaticProps / getStaticPaths / getServerSideProps 只在服务端执行，
+ * 但页面文件同时会被打包进客户端。React Fast Refresh 要求模块只导出组件，
+ * 多出这些导出时每次修改页面都会整页刷新，组件状态也会丢失
+ *
+ * 这里只把 `export` 关键字去掉（函数本身没有被引用，生产构建时会被 tree-shaking 移除）
+ * 真实的 Next.js 会用 Babel / SWC 插件把函数和它独占的依赖一起删除
+ */
+
+/**
+ * 只在服务端使用的页面导出
+ */
+export const SERVER_ONLY_EXPORTS = ['getStaticProps', 'getStaticPaths', 'getServerSideProps']
+
+/**
+ * 匹配 `export async function getStaticProps`、`export const getServerSideProps` 等声明
+ */
+const SERVER_EXPORT_PATTERN = new RegExp(
+  `^export\\s+((?:async\\s+)?function|const|let|var)\\s+(${SERVER_ONLY_EXPORTS.join('|')})\\b`,
+  'gm'
+)
+
+/**
+ * 创建插件
+ * @returns Vite 插件
+ */
+export function stripPageExports(): Plugin {
+  let pagesDir = ''
+
+  return {
+    name: 'mini-next:strip-page-exports',
+    // 在 React 插件注入 Fast Refresh 代码之前处理源码
+    enforce: 'pre',
+
+    configResolved(config) {
+      // 页面目录来自 @pages 别名（mini.config.ts 的 pagesDir），没有别名时使用 root/pages
+      const alias = config.resolve.alias.find(({ find }) => find === PAGES_ALIAS)
+      pagesDir = normalizePath(alias?.replacement ?? path.join(config.root, 'pages'))
+    },
+
+    transform(code, id, options) {
+      // 服务端渲染需要这些函数
+      if (options?.ssr) {
+        return null
+      }
+
+      const file = id.split('?')[0] || ''
+
+      // 只处理页面组件（API 路由不会打包进客户端）
+      if (!file.startsWith(`${pagesDir}/`) || !/\.(jsx|tsx)$/.test(file)) {
+        return null
+      }
+
+      const stripped = code.replace(SERVER_EXPORT_PATTERN, '$1 $2')
+
+      // 只删除了同一行内的文字，行号不变，沿用原来的 sourcemap
+      return stripped === code ? null : { code: stripped, map: null }
+    },
+  }
+}
@@ -0,0 +1,329 @@
+import fs from 'fs'
+import path from 'path'
+import type { Route, RouteManifest, ValidationIssue } from '../types/index.js'
+
+/**
+ * 构建时校验路由和页面导出
+ *
+ * 在 generateRoutes 之后、预渲染之前运行，提前发现以下问题：
+ * - 两个文件匹配同一组 URL（pages/blog/[id].tsx 和 pages/blog/[slug].tsx）
+ * - 同一个路径中重复的参数名（pages/[id]/[id].tsx）
+ * - 互相冲突的数据获取函数（getStaticProps 和 getServerSideProps 同时存在）
+ * - 默认导出不是 React 组件、未知的导出（如拼错的 getStaticprops）
+ *
+ * 存在 error 时构建失败，warning 只打印
+ */
+
+/**
+ * 页面允许的具名导出
+ */
+const PAGE_EXPORTS = ['getStaticProps', 'getStaticPaths', 'getServerSideProps']
+
+/**
+ * 校验路由清单和页面模块
+ *
+ * @param manifest - 路由清单
+ * @returns 发现的问题
+ */
+export async function validateRoutes(manifest: RouteManifest): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [
+    ...checkRouteConflicts(manifest.routes),
+    ...checkDuplicateParams(manifest.routes),
+  ]
+
+  for (const route of manifest.routes) {
+    issues.push(...(await checkPageExports(route)))
+  }
+
+  // 特殊文件（_app、_document、错误页面）只需要默认导出一个组件
+  for (const file of Object.values(manifest.specialPages)) {
+    if (file) {
+      issues.push(...(await checkSpecialPageExports(file)))
+    }
+  }
+
+  return issues
+}
+
+/**
+ * 打印校验结果
+ *
+ * @param issues - 发现的问题
+ * @param projectRoot - 项目根目录（文件位置显示为相对路径）
+ */
+export function printValidationIssues(issues: ValidationIssue[], projectRoot: string): void {
+  for (const issue of issues) {
+    const location = path.relative(projectRoot, issue.file) + (issue.line ? `:${issue.line}` : '')
+    const icon = issue.level === 'error' ? '❌' : '⚠️ '
+
+    console.log(`  ${icon} ${location}`)
+    console.log(`     ${issue.message}`)
+  }
+}
+
+/**
+ * 检查匹配同一组 URL 的路由
+ *
+ * matchRoute 只会返回排序后的第一个，另一个页面永远不会被访问到
+ *
+ * @param routes - 路由列表
+ * @returns 发现的问题
+ */
+function checkRouteConflicts(routes: Route[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const routesByShape = new Map<string, Route>()
+
+  for (const route of routes) {
+    const shape = getRouteShape(route.path)
+    const existing = routesByShape.get(shape)
+
+    if (existing) {
+      issues.push(createConflictIssue(route, existing), createConflictIssue(existing, route))
+    } else {
+      routesByShape.set(shape, route)
+    }
+  }
+
+  // 可选 catch-all 也匹配上一级路径：pages/docs/[[...slug]].tsx 和 pages/docs.tsx 都匹配 /docs
+  for (const route of routes) {
+    if (!/\/:[^/]+\*$/.test(route.path)) continue
+
+    const parentPath = route.path.replace(/\/:[^/]+\*$/, '') || '/'
+    const parent = routesByShape.get(getRouteShape(parentPath))
+
+    if (parent) {
+      issues.push(createConflictIssue(route, parent), createConflictIssue(parent, route))
+    }
+  }
+
+  return issues
+}
+
+/**
+ * 路由的形状：参数名不影响匹配，替换成统一的占位符后比较
+ *
+ * - /blog/:id 和 /blog/:slug -> /blog/[]
+ * - /docs/:slug+ -> /docs/[...]
+ * - /docs/:slug* -> /docs/[[...]]
+ *
+ * @param routePath - 路由路径
+ * @returns 形状
+ */
+function getRouteShape(routePath: string): string {
+  return routePath
+    .split('/')
+    .map((segment) => {
+      if (!segment.startsWith(':')) return segment
+      if (segment.endsWith('*')) return '[[...]]'
+      if (segment.endsWith('+')) return '[...]'
+      return '[]'
+    })
+    .join('/')
+}
+
+/**
+ * @param route - 报告问题的路由
+ * @param other - 与之冲突的路由
+ * @returns 路由冲突的问题
+ */
+function createConflictIssue(route: Route, other: Route): ValidationIssue {
+  return {
+    level: 'error',
+    file: route.componentPath,
+    message: `路由 ${route.path} 与 ${other.path}（${path.basename(other.componentPath)}）匹配相同的 URL`,
+  }
+}
+
+/**
+ * 检查同一个路径中重复的参数名（后一个参数会覆盖前一个）
+ *
+ * @param routes - 路由列表
+ * @returns 发现的问题
+ */
+function checkDuplicateParams(routes: Route[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  for (const route of routes) {
+    const duplicates = route.paramNames.filter(
+      (name, index) => route.paramNames.indexOf(name) !== index
+    )
+
+    for (const name of new Set(duplicates)) {
+      issues.push({
+        level: 'error',
+        file: route.componentPath,
+        message: `路由 ${route.path} 中参数名 ${name} 重复出现`,
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * 检查页面或 API 路由的导出
+ *
+ * @param route - 路由
+ * @returns 发现的问题
+ */
+async function checkPageExports(route: Route): Promise<ValidationIssue[]> {
+  const file = route.componentPath
+  const pageModule = await importModule(file)
+
+  if ('error' in pageModule) {
+    return [pageModule.error]
+  }
+
+  const issues: ValidationIssue[] = []
+  const exports = pageModule.exports
+  const issue = (level: ValidationIssue['level'], name: string, message: string): void => {
+    issues.push({ level, file, line: findExportLine(pageModule.source, name), message })
+  }
+
+  // API 路由只需要默认导出处理函数
+  if (route.renderType === 'api') {
+    if (typeof exports.default !== 'function') {
+      issue('error', 'default', 'API 路由必须默认导出一个处理函数 (req, res) => void')
+    }
+    return issues
+  }
+
+  if (exports.default === undefined) {
+    issue('error', 'default', '页面缺少默认导出的 React 组件')
+  } else if (!isComponent(exports.default)) {
+    issue('error', 'default', `页面的默认导出不是 React 组件（得到 ${describe(exports.default)}）`)
+  }
+
+  for (const name of PAGE_EXPORTS) {
+    if (exports[name] !== undefined && typeof exports[name] !== 'function') {
+      issue('error', name, `${name} 必须是函数（得到 ${describe(exports[name])}）`)
+    }
+  }
+
+  if (exports.getServerSideProps && exports.getStaticProps) {
+    issue(
+      'error',
+      'getServerSideProps',
+      '不能同时导出 getStaticProps 和 getServerSideProps，页面只能选择 SSG 或 SSR'
+    )
+  }
+
+  if (exports.getServerSideProps && exports.getStaticPaths) {
+    issue(
+      'error',
+      'getStaticPaths',
+      'getStaticPaths 只能和 getStaticProps 一起使用，不能用于 getServerSideProps 页面'
+    )
+  }
+
+  if (exports.getStaticPaths && !route.isDynamic) {
+    issue('error', 'getStaticPaths', `getStaticPaths 只能用于动态路由，${route.path} 没有参数`)
+  }
+
+  for (const name of Object.keys(exports)) {
+    if (name === 'default' || PAGE_EXPORTS.includes(name)) continue
+
+    // 大小写不同的数据获取函数不会被调用，页面会静默地变成没有数据的静态页面
+    const typo = PAGE_EXPORTS.find((known) => known.toLowerCase() === name.toLowerCase())
+
+    if (typo) {
+      issue('error', name, `未知的导出 ${name}，是否拼写错误？应为 ${typo}`)
+    } else {
+      issue('warning', name, `未知的导出 ${name}，页面只支持 ${PAGE_EXPORTS.join(' / ')}`)
+    }
+  }
+
+  return issues
+}
+
+/**
+ * 检查特殊文件（_app、_document、404、500、_error）的默认导出
+ *
+ * @param file - 文件路径
+ * @returns 发现的问题
+ */
+async function checkSpecialPageExports(file: string): Promise<ValidationIssue[]> {
+  const pageModule = await importModule(file)
+
+  if ('error' in pageModule) {
+    return [pageModule.error]
+  }
+
+  if (isComponent(pageModule.exports.default)) {
+    return []
+  }
+
+  return [
+    {
+      level: 'error',
+      file,
+      line: findExportLine(pageModule.source, 'default'),
+      message: `默认导出不是 React 组件（得到 ${describe(pageModule.exports.default)}）`,
+    },
+  ]
+}
+
+/**
+ * 导入模块，同时读取源码用于定位导出所在的行
+ *
+ * 与 renderStaticPage 使用相同的 URL，预渲染时直接复用已加载的模块
+ *
+ * @param file - 文件路径
+ * @returns 模块导出和源码，加载失败时返回错误
+ */
+async function importModule(
+  file: string
+): Promise<{ exports: Record<string, unknown>; source: string } | { error: ValidationIssue }> {
+  try {
+    const exports = (await import(`file://${path.resolve(file)}`)) as Record<string, unknown>
+    return { exports, source: fs.readFileSync(file, 'utf-8') }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { error: { level: 'error', file, message: `加载模块失败: ${message}` } }
+  }
+}
+
+/**
+ * 判断是否为 React 组件（函数组件、类组件，或 memo / forwardRef 返回的对象）
+ *
+ * @param value - 默认导出
+ * @returns 是否为组件
+ */
+function isComponent(value: unknown): boolean {
+  return (
+    typeof value === 'function' ||
+    (typeof value === 'object' && value !== null && '$$typeof' in value)
+  )
+}
+
+/**
+ * @param value - 任意值
+ * @returns 用于错误信息的类型描述
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (value === undefined) return 'undefined'
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+/**
+ * 在源码中查找导出所在的行
+ *
+ * 支持 export default、export function / const / class name 和 export { name }
+ *
+ * @param source - 源码
+ * @param name - 导出名（default 表示默认导出）
+ * @returns 行号（从 1 开始），找不到时返回 undefined
+ */
+function findExportLine(source: string, name: string): number | undefined {
+  const pattern =
+    name === 'default'
+      ? /^\s*export\s+default\b|^\s*export\s*\{[^}]*\bas\s+default\b/
+      : new RegExp(
+          `^\\s*export\\s+(?:async\\s+)?(?:function\\*?|const|let|var|class)\\s+${name}\\b` +
+            `|^\\s*export\\s*\\{[^}]*\\b${name}\\b`
+        )
+
+  const index = source.split('\n').findIndex((line) => pattern.test(line))
+  return index === -1 ? undefined : index + 1
+}
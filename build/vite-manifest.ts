@@ -0,0 +1,159 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import type { Manifest } from 'vite'
+import type { PageAssets, RouteManifest } from '../types/index.js'
+
+/**
+ * 读取 Vite 构建清单
+ *
+ * vite.config 中开启了 build.manifest，Vite 会在输出目录写入 .vite/manifest.json，
+ * 记录每个源文件对应的产物文件名（文件名中带有内容 hash）
+ */
+
+/**
+ * 客户端入口源文件（与 vite.config 中的 rollupOptions.input 一致）
+ */
+export const CLIENT_ENTRY_SRC = 'client/index.tsx'
+
+/**
+ * 读取 .vite/manifest.json
+ *
+ * @param staticDir - Vite 输出目录（.next/static）
+ * @returns Vite 构建清单
+ */
+export function readViteManifest(staticDir: string): Manifest {
+  const manifestPath = path.join(staticDir, '.vite/manifest.json')
+
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`找不到 Vite 构建清单: ${manifestPath}`)
+  }
+
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as Manifest
+}
+
+/**
+ * 获取客户端入口脚本的 URL
+ *
+ * @param viteManifest - Vite 构建清单
+ * @returns 入口脚本 URL（如 /client-Bx3f9a.js）
+ */
+export function getClientEntry(viteManifest: Manifest): string {
+  const entry = viteManifest[CLIENT_ENTRY_SRC]
+
+  if (!entry?.isEntry) {
+    throw new Error(`Vite 构建清单中缺少客户端入口: ${CLIENT_ENTRY_SRC}`)
+  }
+
+  return `/${entry.file}`
+}
+
+/**
+ * 获取模块加载时需要的所有文件
+ *
+ * 从源文件对应的 chunk 出发，递归收集静态导入（imports）的 chunk 和它们引入的 CSS，
+ * 动态导入（dynamicImports）按需加载，不计入
+ *
+ * @param viteManifest - Vite 构建清单
+ * @param src - 源文件路径（相对于项目根目录，如 pages/about.tsx）
+ * @returns JS 和 CSS 文件（相对于输出目录），源文件不在清单中时为空
+ */
+export function getChunkFiles(
+  viteManifest: Manifest,
+  src: string
+): { js: string[]; css: string[] } {
+  const js = new Set<string>()
+  const css = new Set<string>()
+  const visited = new Set<string>()
+
+  const visit = (key: string): void => {
+    const chunk = viteManifest[key]
+
+    if (!chunk || visited.has(key)) return
+    visited.add(key)
+
+    js.add(chunk.file)
+    chunk.css?.forEach((file) => css.add(file))
+    chunk.imports?.forEach(visit)
+  }
+
+  visit(src)
+
+  return { js: [...js], css: [...css] }
+}
+
+/**
+ * 计算每个页面首次加载需要的资源
+ *
+ * HTML 中为这些 chunk 输出 <link rel="modulepreload">，浏览器可以和入口脚本并行下载，
+ * 不用等入口执行到 import() 才发现页面 chunk；CSS 直接输出 <link rel="stylesheet">，
+ * 避免页面在 JS 注入样式之前闪烁
+ *
+ * @param viteManifest - Vite 构建清单
+ * @param manifest - 路由清单（clientEntry 已替换为产物文件）
+ * @param projectRoot - 项目根目录
+ * @returns 按页面（路由路径、/404、/500、/_error）索引的资源
+ */
+export function collectPageAssets(
+  viteManifest: Manifest,
+  manifest: RouteManifest,
+  projectRoot: string
+): Record<string, PageAssets> {
+  const { specialPages } = manifest
+  const pages: { page: string; filePath: string | null }[] = [
+    // API 路由没有客户端代码
+    ...manifest.routes
+      .filter((route) => route.renderType !== 'api')
+      .map((route) => ({ page: route.path, filePath: route.componentPath })),
+    // 没有自定义错误页面时使用入口中内置的组件，只需要入口的资源
+    { page: '/404', filePath: specialPages.notFound },
+    { page: '/500', filePath: specialPages.serverError },
+    { page: '/_error', filePath: specialPages.error },
+  ]
+
+  const entry = getChunkFiles(viteManifest, CLIENT_ENTRY_SRC)
+  const pageAssets: Record<string, PageAssets> = {}
+
+  for (const { page, filePath } of pages) {
+    // Vite 清单的 key 是相对于项目根目录的源文件路径
+    const files = filePath
+      ? getChunkFiles(viteManifest, path.relative(projectRoot, filePath).split(path.sep).join('/'))
+      : { js: [], css: [] }
+
+    pageAssets[page] = {
+      // 入口脚本本身由 <script type="module"> 加载，不重复预加载
+      scripts: [...new Set([...entry.js, ...files.js])]
+        .map((file) => `/${file}`)
+        .filter((url) => url !== manifest.clientEntry),
+      stylesheets: [...new Set([...entry.css, ...files.css])].map((file) => `/${file}`),
+    }
+  }
+
+  return pageAssets
+}
+
+/**
+ * 根据构建产物计算 Build ID
+ *
+ * 产物文件名带有内容 hash，客户端代码或页面列表变化时 Build ID 随之变化；
+ * 内容不变时重新构建得到同一个 Build ID，已打开的页面不会被误判为旧版本
+ *
+ * @param viteManifest - Vite 构建清单
+ * @param manifest - 路由清单
+ * @returns Build ID（16 位十六进制）
+ */
+export function createBuildId(viteManifest: Manifest, manifest: RouteManifest): string {
+  const hash = crypto.createHash('sha256')
+
+  // Object.keys 的顺序由 Vite 决定，排序后结果稳定
+  for (const src of Object.keys(viteManifest).sort()) {
+    hash.update(`${src}:${viteManifest[src]?.file}\n`)
+  }
+
+  // API 路由不在客户端产物中，路由路径也计入
+  for (const route of manifest.routes) {
+    hash.update(`${route.path}\n`)
+  }
+
+  return hash.digest('hex').slice(0, 16)
+}
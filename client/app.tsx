@@ -0,0 +1,30 @@
+import Head from './head.js'
+import type { AppProps } from '../types/index.js'
+
+/**
+ * 默认 App 组件
+ *
+ * 类似于 Next.js 的 `next/app`
+ * 当项目没有提供 pages/_app.tsx 时，用它包裹每个页面，并提供默认的 <title>
+ *
+ * 自定义 _app 可以在这里的基础上添加全局 Provider、布局等：
+ * ```jsx
+ * export default function MyApp({ Component, pageProps }) {
+ *   return (
+ *     <Layout>
+ *       <Component {...pageProps} />
+ *     </Layout>
+ *   )
+ * }
+ * ```
+ */
+export default function App({ Component, pageProps }: AppProps): JSX.Element {
+  return (
+    <>
+      <Head>
+        <title>Mini Next.js</title>
+      </Head>
+      <Component {...pageProps} />
+    </>
+  )
+}
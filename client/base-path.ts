@@ -0,0 +1,52 @@
+import { createContext } from 'react'
+
+/**
+ * 子路径部署（mini.config.ts 的 basePath）
+ *
+ * 应用部署在 /docs 这样的子路径下时，浏览器中的页面 URL、数据请求和静态资源都带有这个前缀；
+ * 路由匹配、Link 的 href 和 router.pathname 仍然使用不带前缀的路径（/about）
+ */
+
+/**
+ * 当前应用的 basePath（服务端渲染时由渲染器提供）
+ *
+ * 服务端没有路由器实例，Link 从这里读取，生成与客户端相同的 href
+ */
+export const BasePathContext = createContext('')
+
+/**
+ * 为站内 URL 加上 basePath
+ *
+ * - /about -> /docs/about
+ * - / -> /docs，/?tab=1 -> /docs?tab=1
+ *
+ * @param url - 站内 URL（可以带查询字符串和 hash）
+ * @param basePath - 如 /docs，为空时原样返回
+ * @returns 浏览器中的 URL，站外地址原样返回
+ */
+export function addBasePath(url: string, basePath: string): string {
+  if (!basePath || !url.startsWith('/') || url.startsWith('//')) {
+    return url
+  }
+
+  return /^\/(?=$|[?#])/.test(url) ? basePath + url.slice(1) : basePath + url
+}
+
+/**
+ * 去掉路径中的 basePath
+ *
+ * @param pathname - 浏览器中的路径（如 /docs/about）
+ * @param basePath - 如 /docs
+ * @returns 应用内的路径（如 /about），不在 basePath 下时返回 null
+ */
+export function removeBasePath(pathname: string, basePath: string): string | null {
+  if (!basePath) {
+    return pathname
+  }
+
+  if (pathname === basePath) {
+    return '/'
+  }
+
+  return pathname.startsWith(`${basePath}/`) ? pathname.slice(basePath.length) : null
+}
@@ -0,0 +1,151 @@
+import { createContext, useContext, ReactNode, HTMLAttributes } from 'react'
+import type { DocumentContextValue } from '../types/index.js'
+
+/**
+ * Document 组件
+ *
+ * 类似于 Next.js 的 `next/document`
+ * 用于自定义 HTML 外壳（<html>、<head>、<body>），只在服务端渲染
+ *
+ * 使用示例（pages/_document.tsx）：
+ * ```jsx
+ * export default function Document() {
+ *   const assetPrefix = useAssetPrefix()
+ *
+ *   return (
+ *     <Html lang="en">
+ *       <Head>
+ *         <link rel="stylesheet" href={`${assetPrefix}/styles.css`} />
+ *       </Head>
+ *       <body className="dark">
+ *         <Main />
+ *         <NextScript />
+ *       </body>
+ *     </Html>
+ *   )
+ * }
+ * ```
+ *
+ * ⚠️ Document 不会在客户端hydrate，不要在这里写事件处理或状态
+ */
+
+/**
+ * 渲染文档所需的数据（由 SSG / SSR 渲染器提供）
+ * 框架内部使用，页面代码不需要直接访问
+ */
+export const DocumentContext = createContext<DocumentContextValue | null>(null)
+
+/**
+ * 读取 DocumentContext
+ * @returns 文档数据
+ */
+function useDocumentContext(): DocumentContextValue {
+  const context = useContext(DocumentContext)
+
+  if (!context) {
+    throw new Error('Html / Head / Main / NextScript 只能在 _document 中使用')
+  }
+
+  return context
+}
+
+/**
+ * 静态资源的 URL 前缀（mini.config.ts 的 assetPrefix，默认为 basePath）
+ *
+ * 客户端脚本和页面 CSS 已经自动加上前缀，_document 中引用 public 目录的文件时使用：
+ * <link rel="stylesheet" href={`${assetPrefix}/styles.css`} />
+ *
+ * @returns URL 前缀，部署在根路径时为空字符串
+ */
+export function useAssetPrefix(): string {
+  return useDocumentContext().assetPrefix
+}
+
+/**
+ * <html> 标签
+ * 可以传入 lang、className 等任意属性，启用 i18n 时 lang 为当前页面的语言
+ */
+export function Html({ children, lang, ...props }: HTMLAttributes<HTMLHtmlElement>): JSX.Element {
+  const { nextData } = useDocumentContext()
+
+  return (
+    <html lang={nextData.locale ?? lang} {...props}>
+      {children}
+    </html>
+  )
+}
+
+/**
+ * <head> 标签
+ * 自动包含 charset、viewport 和当前页面的 CSS / modulepreload，children 追加在后面，
+ * 最后是页面中 <Head>（client/head.tsx）收集的标签
+ */
+export function Head({ children }: { children?: ReactNode }): JSX.Element {
+  const { assets, assetPrefix, head } = useDocumentContext()
+
+  return (
+    <head>
+      <meta charSet="UTF-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+      {assets.stylesheets.map((href) => (
+        <link key={href} rel="stylesheet" href={assetPrefix + href} />
+      ))}
+      {assets.scripts.map((href) => (
+        <link key={href} rel="modulepreload" href={assetPrefix + href} />
+      ))}
+      {children}
+      {head}
+    </head>
+  )
+}
+
+/**
+ * 页面内容的挂载点（#__next）
+ * 客户端会在这个元素上进行hydrate
+ */
+export function Main(): JSX.Element {
+  const { appHtml } = useDocumentContext()
+  return <div id="__next" dangerouslySetInnerHTML={{ __html: appHtml }} />
+}
+
+/**
+ * __NEXT_DATA__ 和客户端入口脚本
+ * 必须放在 <Main /> 之后
+ */
+export function NextScript(): JSX.Element {
+  const { nextData, clientScript, assetPrefix } = useDocumentContext()
+
+  // 转义 <，避免数据中的 </script> 提前结束脚本标签
+  const json = JSON.stringify(nextData).replace(/</g, '\\u003c')
+
+  return (
+    <>
+      <script
+        id="__NEXT_DATA__"
+        type="application/json"
+        dangerouslySetInnerHTML={{ __html: json }}
+      />
+      <script type="module" src={assetPrefix + clientScript} />
+    </>
+  )
+}
+
+/**
+ * 默认 Document 组件
+ * 当项目没有提供 pages/_document.tsx 时使用
+ */
+export default function Document(): JSX.Element {
+  const assetPrefix = useAssetPrefix()
+
+  return (
+    <Html lang="zh-CN">
+      <Head>
+        <link rel="stylesheet" href={`${assetPrefix}/styles.css`} />
+      </Head>
+      <body>
+        <Main />
+        <NextScript />
+      </body>
+    </Html>
+  )
+}
@@ -0,0 +1,30 @@
+import Link from './link.js'
+import type { ErrorProps } from '../types/index.js'
+
+/**
+ * 默认错误页面组件
+ *
+ * 类似于 Next.js 的 `next/error`
+ * 当项目没有提供 pages/404.tsx、pages/500.tsx 或 pages/_error.tsx 时使用
+ *
+ * ⚠️ 不显示具体的错误信息，避免把服务端内部细节暴露给用户
+ */
+
+const messages: Record<number, string> = {
+  404: '页面未找到',
+  500: '服务器错误',
+}
+
+export default function Error({ statusCode }: ErrorProps): JSX.Element {
+  return (
+    <div className="container">
+      <div className="card">
+        <h1>{statusCode}</h1>
+        <p>{messages[statusCode] || '发生了错误'}</p>
+        <Link href="/" className="button">
+          返回首页
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import {
+  Children,
+  Fragment,
+  cloneElement,
+  createContext,
+  isValidElement,
+  useContext,
+  useEffect,
+  useState,
+  ReactElement,
+  ReactNode,
+} from 'react'
+
+/**
+ * Head 组件
+ *
+ * 类似于 Next.js 的 `next/head`
+ * 页面和组件可以在任意位置渲染 <Head>，children 会被放进文档的 <head>：
+ *
+ * ```jsx
+ * <Head>
+ *   <title>{post.title}</title>
+ *   <meta key="description" name="description" content={post.summary} />
+ * </Head>
+ * ```
+ *
+ * - 服务端：renderToString 时收集 children，由 _document 的 <Head> 输出
+ * - 客户端：每次 routeChangeComplete 后，按当前挂载的 <Head> 重新生成这些标签
+ *
+ * 相同 key 的标签只保留最后渲染的一个（页面可以覆盖 _app 中的默认值），<title> 始终只保留一个
+ */
+
+/**
+ * 服务端渲染时收集 Head 的 children（由 SSG / SSR 渲染器提供）
+ * 框架内部使用，页面代码不需要直接访问
+ */
+export const HeadManagerContext = createContext<ReactElement[] | null>(null)
+
+/**
+ * 标记由 Head 管理的标签，客户端更新时只替换这些标签
+ */
+const HEAD_ATTRIBUTE = 'data-next-head'
+
+/**
+ * 客户端当前挂载的 Head 实例和它们的 children（按挂载顺序）
+ */
+const mountedHeads = new Map<symbol, ReactElement[]>()
+
+/**
+ * 页面 <head> 中的标签
+ */
+export default function Head({ children }: { children?: ReactNode }): null {
+  const collected = useContext(HeadManagerContext)
+  const [id] = useState(() => Symbol('head'))
+  const elements = flattenChildren(children)
+
+  // 服务端：renderToString 只渲染一次，直接收集
+  if (collected) {
+    collected.push(...elements)
+  }
+
+  // 客户端：记录挂载的实例，导航完成后由 updateHead 统一写入 <head>
+  // 重新渲染时只更新 children，实例保持第一次挂载时的顺序（_app 在前，页面在后）
+  useEffect(() => {
+    mountedHeads.set(id, elements)
+  })
+
+  useEffect(
+    () => () => {
+      mountedHeads.delete(id)
+    },
+    [id]
+  )
+
+  return null
+}
+
+/**
+ * 展开 children（包括 Fragment），只保留元素
+ *
+ * @param children - Head 的 children
+ * @returns 元素列表
+ */
+function flattenChildren(children: ReactNode): ReactElement[] {
+  const elements: ReactElement[] = []
+
+  Children.forEach(children, (child) => {
+    if (!isValidElement<{ children?: ReactNode }>(child)) return
+
+    if (child.type === Fragment) {
+      elements.push(...flattenChildren(child.props.children))
+    } else {
+      elements.push(child)
+    }
+  })
+
+  return elements
+}
+
+/**
+ * 去重并转换为 <head> 中最终输出的标签
+ *
+ * 从后往前保留第一次出现的 key（后渲染的覆盖先渲染的），再恢复原来的顺序
+ * 输出的标签带有 data-next-head 属性，<title> 的多段文本合并为一个字符串
+ *
+ * @param elements - 收集到的元素（按渲染顺序）
+ * @returns 去重后的元素
+ */
+export function uniqueHeadElements(elements: ReactElement[]): ReactElement[] {
+  const seen = new Set<string>()
+  const unique: ReactElement[] = []
+
+  for (const element of [...elements].reverse()) {
+    const key = element.key ?? (element.type === 'title' ? 'title' : null)
+
+    if (key !== null) {
+      if (seen.has(key)) continue
+      seen.add(key)
+    }
+
+    unique.unshift(element)
+  }
+
+  return unique.map((element, index) => {
+    const props: Record<string, unknown> = { key: element.key ?? index, [HEAD_ATTRIBUTE]: '' }
+
+    if (element.type === 'title') {
+      props.children = textContent((element.props as { children?: ReactNode }).children)
+    }
+
+    return cloneElement(element, props)
+  })
+}
+
+/**
+ * 用当前挂载的 Head 更新 document.head
+ *
+ * 在新页面提交（commit）之后调用：删除上一页的标签，插入当前页面的标签
+ */
+export function updateHead(): void {
+  const elements = uniqueHeadElements([...mountedHeads.values()].flat())
+
+  document.head.querySelectorAll(`[${HEAD_ATTRIBUTE}]`).forEach((node) => node.remove())
+  elements.forEach((element) => document.head.appendChild(toDOM(element)))
+}
+
+/**
+ * React 属性名与 HTML 属性名不同的情况
+ */
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for',
+  httpEquiv: 'http-equiv',
+  charSet: 'charset',
+  acceptCharset: 'accept-charset',
+}
+
+/**
+ * 把 Head 中的元素转换为 DOM 节点
+ *
+ * Head 中只有 title、meta、link、script 等简单标签，直接创建节点，不经过 React 渲染
+ *
+ * @param element - React 元素
+ * @returns DOM 节点
+ */
+function toDOM(element: ReactElement): HTMLElement {
+  const node = document.createElement(element.type as string)
+  const props = element.props as Record<string, unknown>
+
+  for (const [name, value] of Object.entries(props)) {
+    if (name === 'children') {
+      node.textContent = textContent(value as ReactNode)
+    } else if (name === 'dangerouslySetInnerHTML') {
+      node.innerHTML = (value as { __html?: string }).__html ?? ''
+    } else if (value === true) {
+      node.setAttribute(ATTRIBUTE_NAMES[name] ?? name, '')
+    } else if (value !== false && value !== null && value !== undefined) {
+      node.setAttribute(ATTRIBUTE_NAMES[name] ?? name, String(value))
+    }
+  }
+
+  return node
+}
+
+/**
+ * @param children - 元素的 children
+ * @returns 合并后的文本（如 {title} - 博客）
+ */
+function textContent(children: ReactNode): string {
+  return Children.toArray(children)
+    .filter((child) => typeof child === 'string' || typeof child === 'number')
+    .join('')
+}
@@ -0,0 +1,89 @@
+import { createContext } from 'react'
+import type { I18nConfig, LocaleInfo } from '../types/index.js'
+
+/**
+ * 国际化路由（mini.config.ts 的 i18n）
+ *
+ * 默认语言的 URL 没有前缀（/about），其他语言带前缀（/en/about）
+ * 客户端路由器、Link 和服务端的路由匹配共用这里的 URL 处理
+ */
+
+/**
+ * 当前页面的语言（服务端渲染时由渲染器提供）
+ *
+ * 服务端没有路由器实例，Link 从这里读取当前语言，生成与客户端相同的 href
+ */
+export const LocaleContext = createContext<LocaleInfo>({})
+
+/**
+ * 拆分路径中的语言前缀
+ *
+ * - /en/about -> { pathname: '/about', locale: 'en' }
+ * - /en -> { pathname: '/', locale: 'en' }
+ * - /about -> { pathname: '/about' }
+ *
+ * @param pathname - URL 路径（不含查询字符串）
+ * @param locales - 支持的语言
+ * @returns 去掉前缀的路径和前缀中的语言（不区分大小写，返回配置中的写法）
+ */
+export function splitLocale(
+  pathname: string,
+  locales: string[]
+): { pathname: string; locale?: string } {
+  const segment = pathname.split('/')[1]?.toLowerCase()
+  const locale = locales.find((item) => item.toLowerCase() === segment)
+
+  if (!locale) {
+    return { pathname }
+  }
+
+  return { pathname: pathname.slice(locale.length + 1) || '/', locale }
+}
+
+/**
+ * 为 URL 加上语言前缀
+ *
+ * 默认语言不加前缀；URL 已经带有某个语言的前缀时保持不变
+ *
+ * @param url - 站内 URL（可以带查询字符串和 hash）
+ * @param locale - 目标语言，false 表示不处理
+ * @param i18n - 支持的语言和默认语言，未启用 i18n 时原样返回
+ * @returns 带语言前缀的 URL（如 /en/about?ref=home）
+ */
+export function addLocale(
+  url: string,
+  locale: string | false | undefined,
+  { locales = [], defaultLocale }: Omit<LocaleInfo, 'locale'>
+): string {
+  if (!defaultLocale || !locale || locale === defaultLocale || !url.startsWith('/')) {
+    return url
+  }
+
+  // //example.com 这样的协议相对地址是站外地址
+  if (url.startsWith('//')) {
+    return url
+  }
+
+  const pathname = url.split(/[?#]/)[0] || '/'
+
+  if (splitLocale(pathname, locales).locale) {
+    return url
+  }
+
+  return `/${locale}${pathname === '/' ? '' : pathname}${url.slice(pathname.length)}`
+}
+
+/**
+ * 数据获取函数和 __NEXT_DATA__ 中的语言字段
+ *
+ * @param i18n - 国际化配置
+ * @param locale - 当前语言（默认为 defaultLocale）
+ * @returns 语言字段，未启用 i18n 时全部为 undefined
+ */
+export function getLocaleInfo(i18n: I18nConfig | undefined, locale?: string): LocaleInfo {
+  return {
+    locale: i18n ? (locale ?? i18n.defaultLocale) : undefined,
+    locales: i18n?.locales,
+    defaultLocale: i18n?.defaultLocale,
+  }
+}
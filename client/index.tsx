@@ -1,7 +1,19 @@
 import { ComponentType } from 'react'
-import { hydrateRoot, Root } from 'react-dom/client'
-import { RouterProvider } from './router.js'
-import type { NextData, ClientRoute, ViteGlobImport, PageModule } from '../types/index.js'
+import { flushSync } from 'react-dom'
+import { hydrateRoot, createRoot, Root } from 'react-dom/client'
+import router, { RouterProvider } from './router.js'
+import DefaultApp from './app.js'
+import { updateHead } from './head.js'
+import DefaultError from './error.js'
+import type {
+  NextData,
+  ClientRoute,
+  ViteGlobImport,
+  ViteEagerGlobImport,
+  PageModule,
+  AppModule,
+  Href,
+} from '../types/index.js'
 
 /**
  * Client Entry Point
@@ -22,11 +34,40 @@ console.log('🚀 Mini Next.js 客户端启动...')
  * Runtime: Returns object mapping paths to loader functions
  *
  * Note: glob pattern must be literal string, not variable
+ * @pages is an alias of the pages directory (mini.config.ts pagesDir, see vite.config.ts),
+ * keys are paths relative to the project root (e.g., /pages/blog/[id].tsx)
  */
-const pageModules = import.meta.glob('../pages/**/*.{jsx,tsx}') as ViteGlobImport
+const pageModules = import.meta.glob([
+  '@pages/**/*.{jsx,tsx}',
+  // 以 _ 开头的特殊文件（_app 等）不是页面，不参与按需加载
+  '!@pages/**/_*.{jsx,tsx}',
+  // API 路由只在服务端运行，不能打包进客户端
+  '!@pages/api/**',
+]) as ViteGlobImport
 
 console.log('📦 已加载页面模块映射:', Object.keys(pageModules))
 
+/**
+ * App component (pages/_app), falls back to the default App
+ *
+ * Loaded eagerly: every page is wrapped by it, so it belongs in the main bundle
+ */
+const appModules = import.meta.glob('@pages/_app.{jsx,tsx}', {
+  eager: true,
+}) as ViteEagerGlobImport<AppModule>
+
+const App = Object.values(appModules)[0]?.default || DefaultApp
+
+/**
+ * Error page modules (pages/404, pages/500, pages/_error), looked up by file name
+ */
+const errorModules = import.meta.glob('@pages/{404,500,_error}.{jsx,tsx}') as ViteGlobImport
+
+/**
+ * Page names the server uses for error pages (see server/render-error.ts)
+ */
+const ERROR_PAGES = ['/404', '/500', '/_error']
+
 /**
  * Global React Root instance
  * Created once during initial hydration, reused for client-side navigation
@@ -55,29 +96,24 @@ export function getRoot(): Root | null {
  * @returns Page component
  */
 async function loadPageComponent(page: string, manifest: ClientRoute[]): Promise<ComponentType> {
-  // 1. 从 manifest 中查找匹配的路由
-  const route = manifest.find((r) => {
-    // 精确匹配
-    if (r.path === page) return true
-
-    // 动态路由匹配（如 /blog/:id 匹配 /blog/123）
-    if (r.isDynamic) {
-      // 将路由模式转换为正则表达式
-      // /blog/:id -> ^/blog/[^/]+$
-      const pattern = new RegExp('^' + r.path.replace(/:[^/]+/g, '[^/]+') + '$')
-      return pattern.test(page)
-    }
+  // 错误页面不在路由清单中，按文件名单独加载
+  if (ERROR_PAGES.includes(page)) {
+    return loadErrorComponent(page)
+  }
 
-    return false
-  })
+  // 1. 从 manifest 中查找匹配的路由
+  // 先按路由路径精确匹配（page 通常就是 /blog/:id 这样的路由路径），
+  // 再按清单顺序做正则匹配。清单在构建时已按优先级排序，与服务端 matchRoute 的顺序一致
+  const route =
+    manifest.find((r) => r.path === page) || manifest.find((r) => new RegExp(r.pattern).test(page))
 
   if (!route) {
     throw new Error(`找不到路由: ${page}`)
   }
 
-  // 2. 构建模块路径
-  // componentPath 来自 manifest，格式：/index.jsx, /about.jsx, /blog/[id].jsx
-  const modulePath = `../pages${route.componentPath}`
+  // 2. 模块路径
+  // componentPath 来自 manifest，格式：/pages/index.tsx, /pages/blog/[id].tsx
+  const modulePath = route.componentPath
 
   console.log(`📂 加载页面组件: ${page} -> ${modulePath}`)
 
@@ -94,6 +130,26 @@ async function loadPageComponent(page: string, manifest: ClientRoute[]): Promise
   return module.default
 }
 
+/**
+ * Load error page component (/404, /500, /_error)
+ *
+ * @param page - Error page name
+ * @returns Error page component, falls back to the default Error
+ */
+async function loadErrorComponent(page: string): Promise<ComponentType<any>> {
+  const key = Object.keys(errorModules).find(
+    (file) => /(\/[^/]+)\.(jsx|tsx)$/.exec(file)?.[1] === page
+  )
+  const loader = key && errorModules[key]
+
+  if (!loader) {
+    return DefaultError
+  }
+
+  const module = (await loader()) as PageModule
+  return module.default
+}
+
 /**
  * 渲染页面组件
  *
@@ -101,19 +157,21 @@ async function loadPageComponent(page: string, manifest: ClientRoute[]): Promise
  * @param props - 页面属性
  */
 function renderPage(PageComponent: ComponentType<any>, props: any): void {
-  const App = () => (
-    <RouterProvider>
-      <PageComponent {...props} />
-    </RouterProvider>
-  )
-
   if (!globalRoot) {
     throw new Error('❌ Root 实例不存在，无法渲染页面')
   }
 
   // ✅ 复用全局 root 实例
   // React 使用 Diff 算法只更新变化的部分
-  globalRoot.render(<App />)
+  // flushSync 同步提交，返回时新页面的 <Head> 已经挂载，可以立即更新 <head>
+  const root = globalRoot
+  flushSync(() => {
+    root.render(
+      <RouterProvider>
+        <App Component={PageComponent} pageProps={props} />
+      </RouterProvider>
+    )
+  })
 }
 
 /**
@@ -135,6 +193,29 @@ async function hydrate(): Promise<void> {
   // ✅ 保存路由清单到全局变量
   globalManifest = nextData.manifest
 
+  // 请求页面数据时带上 Build ID，服务端据此发现新部署的版本
+  if (router) router.buildId = nextData.buildId
+
+  // 部署的子路径（router.pathname 不包含它）和末尾斜杠的规范形式
+  if (router) {
+    router.basePath = nextData.basePath ?? ''
+    router.trailingSlash = nextData.trailingSlash ?? false
+    router.pathname = router.getCurrentPath()
+  }
+
+  // mini.config.ts 中的重定向和重写，router.push / replace 按相同的规则处理
+  if (router) {
+    router.redirects = nextData.redirects ?? []
+    router.rewrites = nextData.rewrites ?? []
+  }
+
+  // 当前语言，Link 和 router.push 据此生成带语言前缀的 URL
+  if (router && nextData.defaultLocale) {
+    router.locale = nextData.locale
+    router.locales = nextData.locales ?? []
+    router.defaultLocale = nextData.defaultLocale
+  }
+
   if (!globalManifest) {
     console.error('❌ __NEXT_DATA__ 中缺少 manifest')
     return
@@ -160,15 +241,23 @@ async function hydrate(): Promise<void> {
   console.log('💧 开始hydrate...')
 
   try {
-    const App = () => (
+    const tree = (
       <RouterProvider>
-        <PageComponent {...nextData.props.pageProps} />
+        <App Component={PageComponent} pageProps={nextData.props.pageProps} />
       </RouterProvider>
     )
 
     // ⚠️ 关键：保存 root 实例到全局变量
     // 后续客户端导航时会复用这个 root，而不是创建新的
-    globalRoot = hydrateRoot(rootElement, <App />)
+    if (nextData.isFallback) {
+      // fallback 外壳没有服务端渲染的内容，无法hydrate，直接在客户端渲染
+      // 页面组件通过 router.isFallback 显示加载状态
+      if (router) router.isFallback = true
+      globalRoot = createRoot(rootElement)
+      globalRoot.render(tree)
+    } else {
+      globalRoot = hydrateRoot(rootElement, tree)
+    }
     console.log('✅ hydrate完成！页面现在是交互式的')
     console.log('📌 Root 实例已保存，后续导航将复用此 root')
   } catch (error) {
@@ -176,7 +265,13 @@ async function hydrate(): Promise<void> {
   }
 
   // 4. 设置路由事件监听（用于客户端导航）
-  setupRouterEvents()
+  await setupRouterEvents()
+
+  // 5. fallback 外壳：请求当前页面的数据（服务端会按需生成），完成后 isFallback 变为 false
+  if (nextData.isFallback && router) {
+    // 当前地址来自浏览器，不在类型检查范围内
+    router.replace(router.getCurrentPath() as Href)
+  }
 }
 
 /**
@@ -200,6 +295,9 @@ async function setupRouterEvents(): Promise<void> {
       // ✅ 使用通用函数渲染页面
       renderPage(PageComponent, data.pageProps)
 
+      // 用新页面的 <Head> 替换 <title>、<meta> 等标签
+      updateHead()
+
       console.log('✅ 页面已更新（复用 root 实例）')
     } catch (error) {
       console.error('❌ 更新页面失败:', error)
@@ -1,5 +1,9 @@
-import React, { ReactNode, AnchorHTMLAttributes } from 'react'
-import { useRouter } from './router.js'
+import React, { ReactNode, AnchorHTMLAttributes, useContext } from 'react'
+import { useRouter, resolveHref } from './router.js'
+import { LocaleContext, addLocale } from './i18n.js'
+import { BasePathContext, addBasePath } from './base-path.js'
+import { TrailingSlashContext, normalizeTrailingSlash } from './trailing-slash.js'
+import type { Href } from '../types/index.js'
 
 /**
  * Link 组件
@@ -16,32 +20,58 @@ import { useRouter } from './router.js'
  * ```jsx
  * <Link href="/about">关于我们</Link>
  * <Link href="/blog/123" prefetch={false}>博客文章</Link>
+ * <Link href={{ pathname: '/blog/[id]', query: { id: '123' } }}>博客文章</Link>
+ * <Link href="/about" locale="en">About</Link>
  * ```
+ *
+ * 启用 i18n 时 href 自动加上当前语言的前缀（默认语言没有前缀），locale 指定其他语言
+ * 部署在子路径下时 <a> 的 href 自动加上 basePath，href 参数中不需要写
+ * href 末尾的 / 按 trailingSlash 自动添加或去掉
+ *
+ * 运行过 npm run build / npm run dev 后，href 只接受存在的路由（见 build/route-types.ts）
  */
 
 interface LinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
-  href: string
+  href: Href
   children: ReactNode
   prefetch?: boolean
+  /** 目标语言（默认为当前语言），false 表示不加语言前缀 */
+  locale?: string | false
 }
 
 export default function Link({
   href,
   children,
   prefetch = true,
+  locale,
   ...props
 }: LinkProps): JSX.Element {
   // ✅ 总是调用 Hook（符合 React Hooks 规则）
   // 不能在条件语句中调用 Hook！
   // useRouter 在 SSR 时返回 null，在客户端返回 router 实例
   const router = useRouter()
+  // 服务端没有路由器，当前语言、basePath 和 trailingSlash 由渲染器通过 context 提供
+  const localeInfo = useContext(LocaleContext)
+  const basePath = useContext(BasePathContext)
+  const trailingSlash = useContext(TrailingSlashContext)
+
+  // 对象形式的 href 转换为 URL，用于 <a> 标签
+  const url = router
+    ? addBasePath(router.resolveUrl(href, locale), router.basePath)
+    : addBasePath(
+        normalizeTrailingSlash(
+          addLocale(resolveHref(href), locale ?? localeInfo.locale, localeInfo),
+          trailingSlash
+        ),
+        basePath
+      )
 
   // SSR 降级逻辑：
   // 如果 router 为 null（服务端渲染或没有 RouterProvider），
   // 返回普通 <a> 标签，确保 SEO 友好
   if (!router) {
     return (
-      <a href={href} {...props}>
+      <a href={url} {...props}>
         {children}
       </a>
     )
@@ -61,7 +91,7 @@ export default function Link({
     e.preventDefault()
 
     // 使用客户端路由导航
-    router.push(href)
+    router.push(href, { locale })
   }
 
   /**
@@ -70,12 +100,12 @@ export default function Link({
    */
   const handleMouseEnter = () => {
     if (prefetch && router.prefetch) {
-      router.prefetch(href)
+      router.prefetch(href, { locale })
     }
   }
 
   return (
-    <a href={href} onClick={handleClick} onMouseEnter={handleMouseEnter} {...props}>
+    <a href={url} onClick={handleClick} onMouseEnter={handleMouseEnter} {...props}>
       {children}
     </a>
   )
@@ -0,0 +1,190 @@
+import { removeTrailingSlash } from './trailing-slash.js'
+import type { CompiledRule, RouteHas, RouteParams } from '../types/index.js'
+
+/**
+ * mini.config.ts 中 redirects / rewrites / headers 规则的匹配
+ *
+ * 规则在构建时（开发模式在启动时）编译进路由清单，服务端在匹配路由之前处理，
+ * 客户端路由器在 push / replace 时按同样的规则跳转或获取重写后页面的数据
+ */
+
+/**
+ * 规则条件（has）可以读取的请求信息
+ */
+export interface RuleRequest {
+  /** 查询参数 */
+  query: Record<string, string | string[] | undefined>
+  /** Cookie */
+  cookies: Record<string, string>
+  /** 请求头（名称为小写），客户端读取不到请求头时为 undefined */
+  headers?: Record<string, string | string[] | undefined>
+}
+
+/**
+ * 匹配规则的 source 和 has 条件
+ *
+ * @param rule - 编译后的规则
+ * @param pathname - 请求路径（不含查询字符串）
+ * @param request - 请求信息
+ * @returns 参数（source 中的参数和 has 条件捕获的值），不匹配时返回 null
+ */
+export function matchRule(
+  rule: CompiledRule,
+  pathname: string,
+  request: RuleRequest
+): RouteParams | null {
+  const params = matchSource(rule, pathname)
+  const hasParams = params && matchHas(rule.has ?? [], request)
+
+  return params && hasParams ? { ...params, ...hasParams } : null
+}
+
+/**
+ * 只匹配规则的 source
+ *
+ * @param rule - 编译后的规则
+ * @param pathname - 请求路径
+ * @returns source 中的参数，不匹配时返回 null
+ */
+export function matchSource(rule: CompiledRule, pathname: string): RouteParams | null {
+  // trailingSlash: true 时请求路径以 / 结尾（/blog/1/），source 不需要写出来
+  const match = removeTrailingSlash(pathname).match(new RegExp(rule.pattern))
+  return match ? extractParams(match, rule.source, rule.paramNames) : null
+}
+
+/**
+ * 检查 has 条件（全部满足才匹配）
+ *
+ * - 没有 value：只要求存在，值以 key 为名作为参数
+ * - 有 value：整个值必须匹配这个正则表达式，命名捕获组作为参数
+ *
+ * @param conditions - has 条件
+ * @param request - 请求信息（没有请求头时，header 条件视为不满足）
+ * @returns 条件捕获的参数，不满足时返回 null
+ */
+export function matchHas(conditions: RouteHas[], request: RuleRequest): RouteParams | null {
+  const params: RouteParams = {}
+
+  for (const { type, key, value } of conditions) {
+    const raw =
+      type === 'header'
+        ? request.headers?.[key.toLowerCase()]
+        : type === 'cookie'
+          ? request.cookies[key]
+          : request.query[key]
+    const actual = Array.isArray(raw) ? raw[0] : raw
+
+    if (actual === undefined) {
+      return null
+    }
+
+    if (value === undefined) {
+      params[key] = actual
+      continue
+    }
+
+    const match = actual.match(new RegExp(`^(?:${value})$`))
+
+    if (!match) {
+      return null
+    }
+
+    Object.assign(params, match.groups)
+  }
+
+  return params
+}
+
+/**
+ * 把参数填入目标地址，并带上原请求的查询字符串
+ *
+ * - /blog/:id + { id: '1' } -> /blog/1
+ * - /docs/:slug* + { slug: ['a', 'b'] } -> /docs/a/b
+ * - 目标地址中没有出现的 :xxx（如端口号）保持不变
+ *
+ * @param destination - 目标地址或响应头的值
+ * @param params - 参数
+ * @param search - 原请求的查询字符串（如 ?ref=home），响应头不需要
+ * @returns 填入参数后的地址
+ */
+export function applyParams(destination: string, params: RouteParams, search = ''): string {
+  const result = destination.replace(/:([A-Za-z_]\w*)[+*]?/g, (text, name: string) => {
+    const value = params[name]
+
+    if (value === undefined) return text
+    return Array.isArray(value) ? value.join('/') : value
+  })
+
+  if (!search || search === '?') {
+    return result
+  }
+
+  return result + (result.includes('?') ? `&${search.slice(1)}` : search)
+}
+
+/**
+ * 从正则匹配结果中提取参数（路由和规则的 source 共用）
+ *
+ * @param match - 正则匹配结果
+ * @param path - 路由路径或规则的 source（如 /blog/:id、/docs/:slug+）
+ * @param paramNames - 参数名
+ * @returns 参数对象
+ *
+ * 示例：
+ * match = ['/blog/123', '123']
+ * paramNames = ['id']
+ * 返回: { id: '123' }
+ *
+ * catch-all 参数会按 / 拆分为数组：
+ * match = ['/docs/a/b', 'a/b']
+ * path = '/docs/:slug+'
+ * 返回: { slug: ['a', 'b'] }
+ */
+export function extractParams(
+  match: RegExpMatchArray,
+  path: string,
+  paramNames: string[]
+): RouteParams {
+  const params: RouteParams = {}
+
+  // match[0] 是完整匹配，match[1]... 是捕获组
+  paramNames.forEach((name, index) => {
+    const value = match[index + 1]
+
+    // :slug+ / :slug* 是 catch-all 参数，可选 catch-all 未匹配时为空数组
+    if (new RegExp(`:${name}[+*](?=/|$)`).test(path)) {
+      params[name] = value ? value.split('/') : []
+      return
+    }
+
+    params[name] = value || ''
+  })
+
+  return params
+}
+
+/**
+ * 解析 Cookie 请求头（客户端传入 document.cookie）
+ *
+ * @param cookie - 如 theme=dark; beta=1
+ * @returns Cookie 对象
+ */
+export function parseCookies(cookie: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {}
+
+  for (const part of (cookie ?? '').split(';')) {
+    const index = part.indexOf('=')
+    if (index === -1) continue
+
+    const name = part.slice(0, index).trim()
+    const value = part.slice(index + 1).trim()
+
+    try {
+      cookies[name] = decodeURIComponent(value)
+    } catch {
+      cookies[name] = value
+    }
+  }
+
+  return cookies
+}
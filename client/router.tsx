@@ -1,11 +1,23 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import type {
   PageData,
+  PageRedirectData,
   CachedPageData,
   RouterEvent,
   RouterEventListener,
   FetchPageDataOptions,
+  NavigateOptions,
+  Href,
+  RouteParams,
+  CompiledRule,
+  CompiledRedirect,
+  CompiledRewrite,
 } from '../types/index.js'
+import { addLocale, splitLocale } from './i18n.js'
+import { addBasePath, removeBasePath } from './base-path.js'
+import { normalizeTrailingSlash } from './trailing-slash.js'
+import { applyParams, matchRule, matchSource, parseCookies } from './route-rules.js'
+import type { RuleRequest } from './route-rules.js'
 
 /**
  * 客户端路由器
@@ -17,22 +29,59 @@ import type {
 // 创建路由上下文
 const RouterContext = createContext<Router | null>(null)
 
+// 一次导航中最多连续跟随的重定向次数（与浏览器的限制相当），超出后交给浏览器整页跳转
+const MAX_REDIRECTS = 10
+
 /**
  * Router 类
  * 管理客户端路由状态
  */
 class Router {
   pathname: string
-  query: Record<string, string>
+  query: RouteParams
+  isFallback: boolean
+  buildId: string
+  locale?: string
+  locales: string[]
+  defaultLocale?: string
+  basePath: string
+  trailingSlash: boolean
+  redirects: CompiledRedirect[]
+  rewrites: CompiledRewrite[]
   listeners: RouterEventListener[]
   cache: Map<string, CachedPageData>
-  prefetchPromises: Map<string, Promise<PageData>>
+  prefetchPromises: Map<string, Promise<PageData | PageRedirectData>>
+  redirectDepth: number
 
   constructor() {
     this.pathname = window.location.pathname
     this.query = this.parseQuery(window.location.search)
     this.listeners = []
 
+    // fallback 外壳（getStaticPaths fallback: true）在数据加载完成前为 true
+    // 由客户端入口根据 __NEXT_DATA__.isFallback 设置
+    this.isFallback = false
+
+    // 当前页面的 Build ID，请求页面数据时带给服务端
+    // 由客户端入口根据 __NEXT_DATA__.buildId 设置
+    this.buildId = ''
+
+    // 当前语言和支持的语言（启用 i18n 时），由客户端入口根据 __NEXT_DATA__ 设置
+    this.locale = undefined
+    this.locales = []
+    this.defaultLocale = undefined
+
+    // 部署的子路径（如 /docs），浏览器中的 URL 和数据请求带有这个前缀，pathname 不带
+    // 由客户端入口根据 __NEXT_DATA__.basePath 设置
+    this.basePath = ''
+
+    // 页面 URL 是否以 / 结尾，由客户端入口根据 __NEXT_DATA__.trailingSlash 设置
+    this.trailingSlash = false
+
+    // mini.config.ts 中的重定向和重写，由客户端入口根据 __NEXT_DATA__ 设置
+    this.redirects = []
+    this.rewrites = []
+
     // ✨ 新增：页面数据缓存
     // key: URL, value: { data, promise, timestamp }
     this.cache = new Map()
@@ -41,14 +90,29 @@ class Router {
     // key: URL, value: Promise
     this.prefetchPromises = new Map()
 
+    // 当前导航已经连续跟随的重定向次数，防止重定向循环时无限递归
+    this.redirectDepth = 0
+
     // 监听浏览器的前进/后退按钮
     window.addEventListener('popstate', () => {
-      this.pathname = window.location.pathname
+      this.pathname = this.getCurrentPath()
       this.query = this.parseQuery(window.location.search)
+      if (this.defaultLocale) {
+        this.locale = splitLocale(this.pathname, this.locales).locale ?? this.defaultLocale
+      }
       this.emit('routeChangeComplete', this.pathname)
     })
   }
 
+  /**
+   * 浏览器当前地址对应的应用内路径（去掉 basePath）
+   * @returns 路径（如 /about）
+   */
+  getCurrentPath(): string {
+    const { pathname } = window.location
+    return removeBasePath(pathname, this.basePath) ?? pathname
+  }
+
   /**
    * 解析查询字符串
    * @param search - 查询字符串（如 ?foo=bar&baz=qux）
@@ -75,9 +139,13 @@ class Router {
    *
    * @param url - 页面 URL
    * @param options - 选项
-   * @returns 页面数据
+   * @returns 页面数据，getStaticProps / getServerSideProps 返回 redirect 时为重定向信息
+   * @throws 服务端已部署新版本（Build ID 不一致）、数据文件不存在或中间件直接响应时抛出 hardNavigation 错误
    */
-  async fetchPageData(url: string, options: FetchPageDataOptions = {}): Promise<PageData> {
+  async fetchPageData(
+    url: string,
+    options: FetchPageDataOptions = {}
+  ): Promise<PageData | PageRedirectData> {
     const { force = false } = options
 
     // 1. 检查缓存（除非强制刷新）
@@ -95,14 +163,36 @@ class Router {
 
     // 3. 发起新请求
     console.log(`🌐 发起请求: ${url}`)
-    const promise = fetch(`${url}?_next_data=1`)
-      .then((r) => r.json())
-      .then((data: PageData) => {
-        // 缓存数据
-        this.cache.set(url, {
-          data,
-          timestamp: Date.now(),
-        })
+    const promise = fetch(this.getDataUrl(url))
+      .then(async (r) => {
+        // 新版本已部署：旧的页面组件和新的数据可能不兼容，交给调用方整页加载
+        if (r.status === 409) {
+          throw Object.assign(new Error('Build ID 不一致，服务端已部署新版本'), {
+            hardNavigation: true,
+          })
+        }
+
+        // middleware.ts 直接返回了响应（如 401）：整页加载，由浏览器展示这个响应
+        if (r.headers.has('X-Middleware-Response')) {
+          throw Object.assign(new Error(`中间件拦截了请求: ${url}`), { hardNavigation: true })
+        }
+
+        // 静态导出的站点没有服务器：数据文件不存在（新版本已部署，或页面没有导出）时
+        // 静态文件服务器返回的不是 JSON，同样整页加载，由静态文件服务器处理
+        if (!r.headers.get('content-type')?.includes('application/json')) {
+          throw Object.assign(new Error(`页面数据不存在: ${url}`), { hardNavigation: true })
+        }
+
+        // 404 / 500 时服务端返回错误页面的数据，照常渲染，但不缓存
+        // 重定向可能是临时的，也不缓存
+        const data = (await r.json()) as PageData | PageRedirectData
+
+        if (r.ok && !('redirect' in data)) {
+          this.cache.set(url, {
+            data,
+            timestamp: Date.now(),
+          })
+        }
 
         // 清除正在进行的请求记录
         this.prefetchPromises.delete(url)
@@ -121,30 +211,133 @@ class Router {
     return promise
   }
 
+  /**
+   * 页面数据的 URL
+   *
+   * 与 .next/static 中 JSON 文件的路径对应，静态导出后可以直接从静态文件服务器获取：
+   * - / -> /_next/data/<buildId>/index.json
+   * - /blog/1?ref=home -> /_next/data/<buildId>/blog/1.json?ref=home
+   * - /en -> /_next/data/<buildId>/en/index.json
+   * - 部署在 /docs 下时：/about -> /docs/_next/data/<buildId>/about.json
+   *
+   * @param url - 页面 URL
+   * @returns 数据 URL
+   */
+  getDataUrl(url: string): string {
+    const { pathname: fullPath, search } = new URL(url, window.location.href)
+    const { pathname, locale } = splitLocale(fullPath, this.locales)
+    const page = pathname === '/' ? '/index' : pathname.replace(/\/$/, '')
+
+    return `${this.basePath}/_next/data/${this.buildId}${locale ? `/${locale}` : ''}${page}.json${search}`
+  }
+
+  /**
+   * 目标页面的 URL（按语言加上前缀，按 trailingSlash 处理末尾的 /）
+   *
+   * @param href - 目标 URL，或 { pathname: '/blog/[id]', query: { id } }
+   * @param locale - 目标语言，默认为当前语言
+   * @returns 规范形式的 URL（如 /en/blog/1，trailingSlash 时为 /en/blog/1/）
+   */
+  resolveUrl(href: Href, locale: string | false | undefined): string {
+    const url = addLocale(resolveHref(href), locale ?? this.locale, this)
+    return normalizeTrailingSlash(url, this.trailingSlash)
+  }
+
+  /**
+   * 按 mini.config.ts 的 redirects / rewrites 处理目标 URL（与服务端的顺序相同）
+   *
+   * - 匹配到重定向：返回重定向信息，由 followRedirect 跳转
+   * - 匹配到重写：返回目标地址，获取它的数据，浏览器地址仍然是原来的 URL
+   * - 都没有匹配：原样返回
+   *
+   * 与路由一样，source 匹配去掉语言前缀的路径，站内的目标地址加回 URL 中的语言前缀
+   *
+   * @param url - 目标 URL（应用内路径，可以带查询字符串）
+   * @returns 重定向信息，或需要获取数据的 URL
+   * @throws 规则带有请求头条件时抛出 hardNavigation 错误（浏览器中读取不到请求头，交给服务端判断）
+   */
+  resolveRules(url: string): PageRedirectData | string {
+    const { pathname: localizedPath, search } = new URL(url, window.location.href)
+    const { pathname, locale } = splitLocale(localizedPath, this.locales)
+    const request: RuleRequest = {
+      query: this.parseQuery(search),
+      cookies: parseCookies(document.cookie),
+    }
+
+    for (const rule of this.redirects) {
+      const params = matchClientRule(rule, pathname, request)
+
+      if (params) {
+        const destination = normalizeTrailingSlash(
+          addLocale(applyParams(rule.destination, params, search), locale, this),
+          this.trailingSlash
+        )
+        return { redirect: { destination, statusCode: rule.statusCode } }
+      }
+    }
+
+    for (const rule of this.rewrites) {
+      const params = matchClientRule(rule, pathname, request)
+
+      if (params) {
+        const destination = addLocale(applyParams(rule.destination, params, search), locale, this)
+        console.log(`🔀 重写: ${url} -> ${destination}`)
+        return destination
+      }
+    }
+
+    return url
+  }
+
   /**
    * 导航到新页面（添加历史记录）
-   * @param url - 目标 URL
+   * @param href - 目标 URL，或 { pathname: '/blog/[id]', query: { id } }
+   * @param options - locale: 目标语言（默认为当前语言）
    */
-  async push(url: string): Promise<void> {
+  async push(href: Href, options: NavigateOptions = {}): Promise<void> {
+    const url = this.resolveUrl(href, options.locale)
     console.log(`🔗 客户端导航: ${url}`)
 
     try {
       // 触发导航开始事件
       this.emit('routeChangeStart', url)
 
-      // ✅ 使用缓存获取数据
-      const data = await this.fetchPageData(url)
+      // mini.config.ts 的重定向和重写
+      const target = this.resolveRules(url)
+
+      if (typeof target !== 'string') {
+        await this.followRedirect(target, 'push')
+        return
+      }
+
+      // ✅ 使用缓存获取数据（重写时获取目标页面的数据）
+      const data = await this.fetchPageData(target)
+
+      // 页面返回了 redirect：跟随跳转，不渲染当前页面
+      if ('redirect' in data) {
+        await this.followRedirect(data, 'push')
+        return
+      }
 
       // 更新路由状态
       this.pathname = url
       this.query = data.query || {}
+      this.locale = data.locale
+      this.isFallback = false
 
       // 更新浏览器 URL（不刷新页面）
-      window.history.pushState({}, '', url)
+      window.history.pushState({}, '', addBasePath(url, this.basePath))
 
       // 触发导航完成事件
       this.emit('routeChangeComplete', url, data)
     } catch (error) {
+      // 新版本已部署或数据不存在：整页加载目标页面，获取新的 HTML 和客户端代码
+      if (isHardNavigation(error)) {
+        console.warn(`🆕 无法使用客户端导航，整页加载: ${url}`)
+        window.location.assign(addBasePath(url, this.basePath))
+        return
+      }
+
       console.error('❌ 客户端导航失败:', error)
       this.emit('routeChangeError', error, url)
     }
@@ -152,30 +345,95 @@ class Router {
 
   /**
    * 替换当前页面（不添加历史记录）
-   * @param url - 目标 URL
+   * @param href - 目标 URL，或 { pathname: '/blog/[id]', query: { id } }
+   * @param options - locale: 目标语言（默认为当前语言）
    */
-  async replace(url: string): Promise<void> {
+  async replace(href: Href, options: NavigateOptions = {}): Promise<void> {
+    const url = this.resolveUrl(href, options.locale)
+
     // 实现与 push 类似，但使用 replaceState
     console.log(`🔄 客户端替换: ${url}`)
 
     try {
       this.emit('routeChangeStart', url)
 
+      const target = this.resolveRules(url)
+
+      if (typeof target !== 'string') {
+        await this.followRedirect(target, 'replace')
+        return
+      }
+
       // ✅ 使用缓存获取数据
-      const data = await this.fetchPageData(url)
+      const data = await this.fetchPageData(target)
+
+      if ('redirect' in data) {
+        await this.followRedirect(data, 'replace')
+        return
+      }
 
       this.pathname = url
       this.query = data.query || {}
+      this.locale = data.locale
+      this.isFallback = false
 
-      window.history.replaceState({}, '', url)
+      window.history.replaceState({}, '', addBasePath(url, this.basePath))
 
       this.emit('routeChangeComplete', url, data)
     } catch (error) {
+      if (isHardNavigation(error)) {
+        console.warn(`🆕 无法使用客户端导航，整页加载: ${url}`)
+        window.location.replace(addBasePath(url, this.basePath))
+        return
+      }
+
       console.error('❌ 客户端替换失败:', error)
       this.emit('routeChangeError', error, url)
     }
   }
 
+  /**
+   * 跟随 getStaticProps / getServerSideProps 或 mini.config.ts 中的重定向
+   *
+   * 站内路径继续使用客户端导航，站外地址交给浏览器跳转；
+   * 连续重定向超过 MAX_REDIRECTS 次（如重定向循环）时同样交给浏览器，由它报告重定向过多
+   *
+   * @param data - 重定向信息
+   * @param method - push: 添加历史记录，replace: 替换当前记录
+   */
+  async followRedirect({ redirect }: PageRedirectData, method: 'push' | 'replace'): Promise<void> {
+    const { destination } = redirect
+    console.log(`↪️  重定向: ${destination}`)
+
+    // //example.com 这样的协议相对地址也是站外地址
+    const internal = destination.startsWith('/') && !destination.startsWith('//')
+
+    if (internal && this.redirectDepth < MAX_REDIRECTS) {
+      // 跟随的重定向在这次 push / replace 内部完成，返回后计数恢复
+      this.redirectDepth++
+
+      try {
+        // 地址来自服务端返回的数据，不在类型检查范围内；其中已经包含语言前缀，不再处理
+        await this[method](destination as Href, { locale: false })
+      } finally {
+        this.redirectDepth--
+      }
+      return
+    }
+
+    if (internal) {
+      console.warn(`⚠️  连续重定向超过 ${MAX_REDIRECTS} 次，整页加载: ${destination}`)
+    }
+
+    const url = internal ? addBasePath(destination, this.basePath) : destination
+
+    if (method === 'push') {
+      window.location.assign(url)
+    } else {
+      window.location.replace(url)
+    }
+  }
+
   /**
    * 预取页面数据（用于优化性能）
    *
@@ -184,16 +442,29 @@ class Router {
    * 2. 如果已经有请求在进行，不会发起新请求
    * 3. 缓存的数据会被 push() 和 replace() 复用
    *
-   * @param url - 要预取的 URL
+   * @param href - 要预取的 URL
+   * @param options - locale: 目标语言（默认为当前语言）
    */
-  async prefetch(url: string): Promise<void> {
+  async prefetch(href: Href, options: NavigateOptions = {}): Promise<void> {
+    const url = this.resolveUrl(href, options.locale)
+
     try {
+      // 重定向的目标在跳转时再获取，重写时预取目标页面的数据
+      const target = this.resolveRules(url)
+
+      if (typeof target !== 'string') {
+        return
+      }
+
       // ✅ 使用统一的数据获取方法
       // 如果已缓存或正在请求，不会发起新请求
-      await this.fetchPageData(url)
+      await this.fetchPageData(target)
       console.log(`✨ 预取完成: ${url}`)
     } catch (error) {
-      console.error('预取失败:', error)
+      // 需要整页加载的页面无法预取
+      if (!isHardNavigation(error)) {
+        console.error('预取失败:', error)
+      }
     }
   }
 
@@ -225,6 +496,88 @@ class Router {
   }
 }
 
+/**
+ * 把 href 转换为 URL 字符串
+ *
+ * 对象形式中的路由参数填入 pathname，其余参数作为查询字符串：
+ * { pathname: '/blog/[id]', query: { id: '1', ref: 'home' } } -> /blog/1?ref=home
+ *
+ * @param href - 字符串或对象形式的 href
+ * @returns URL
+ */
+export function resolveHref(href: Href): string {
+  if (typeof href === 'string') {
+    return href
+  }
+
+  const query: Record<string, string | string[] | undefined> = { ...href.query }
+  const takeParam = (name: string): string | string[] | undefined => {
+    const value = query[name]
+    delete query[name]
+    return value
+  }
+  const encode = (value: string | string[]): string =>
+    Array.isArray(value) ? value.map(encodeURIComponent).join('/') : encodeURIComponent(value)
+
+  const pathname =
+    href.pathname
+      // [[...slug]]：可选，没有值时连同前面的 / 一起去掉
+      .replace(/\/\[\[\.\.\.([^\]]+)\]\]/g, (_, name: string) => {
+        const value = takeParam(name)
+        return value && value.length > 0 ? `/${encode(value)}` : ''
+      })
+      // [...slug] 和 [id]：必填
+      .replace(/\[(?:\.\.\.)?([^\]]+)\]/g, (_, name: string) => {
+        const value = takeParam(name)
+
+        if (value === undefined || value.length === 0) {
+          throw new Error(`缺少路由参数 ${name}: ${href.pathname}`)
+        }
+        return encode(value)
+      }) || '/'
+
+  const search = new URLSearchParams()
+
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      search.append(key, item)
+    }
+  }
+
+  const queryString = search.toString()
+  return pathname + (queryString ? `?${queryString}` : '') + (href.hash ? `#${href.hash}` : '')
+}
+
+/**
+ * 在浏览器中匹配重定向 / 重写规则
+ *
+ * @param rule - 编译后的规则
+ * @param pathname - 目标路径
+ * @param request - 查询参数和 Cookie
+ * @returns 参数，不匹配时返回 null
+ * @throws source 匹配且规则带有请求头条件时抛出 hardNavigation 错误
+ */
+function matchClientRule(
+  rule: CompiledRule,
+  pathname: string,
+  request: RuleRequest
+): RouteParams | null {
+  if (rule.has?.some(({ type }) => type === 'header') && matchSource(rule, pathname)) {
+    throw Object.assign(new Error(`规则依赖请求头: ${rule.source}`), { hardNavigation: true })
+  }
+
+  return matchRule(rule, pathname, request)
+}
+
+/**
+ * 判断错误是否需要改为整页加载（Build ID 不一致、数据文件不存在、规则依赖请求头、中间件直接响应）
+ * @param error - fetchPageData / resolveRules 抛出的错误
+ * @returns 是否整页加载
+ */
+function isHardNavigation(error: unknown): boolean {
+  return Boolean((error as { hardNavigation?: boolean } | null)?.hardNavigation)
+}
+
 // 创建全局路由器实例
 const globalRouter = typeof window !== 'undefined' ? new Router() : null
 
@@ -261,8 +614,11 @@ export function RouterProvider({ children }: { children: ReactNode }): JSX.Eleme
  * const router = useRouter()
  * if (router) {
  *   router.push('/about')
+ *   router.push('/about', { locale: 'en' }) // 切换语言：/en/about
  *   console.log(router.pathname) // 当前路径
+ *   console.log(router.locale)   // 当前语言（启用 i18n 时）
  *   console.log(router.query)    // 查询参数
+ *   console.log(router.isFallback) // 是否为 fallback 外壳（数据加载中）
  * }
  * ```
  *
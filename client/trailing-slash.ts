@@ -0,0 +1,66 @@
+import { createContext } from 'react'
+
+/**
+ * 末尾斜杠（mini.config.ts 的 trailingSlash）
+ *
+ * trailingSlash: true 时页面的规范 URL 以 / 结尾（/about/），默认不带（/about）
+ * 服务端把其他形式 308 重定向到规范 URL，Link 和 router.push 直接生成规范 URL；
+ * 路由、重定向规则和中间件的 matcher 匹配时忽略末尾的 /
+ */
+
+/**
+ * 当前应用的 trailingSlash（服务端渲染时由渲染器提供）
+ *
+ * 服务端没有路由器实例，Link 从这里读取，生成与客户端相同的 href
+ */
+export const TrailingSlashContext = createContext(false)
+
+/**
+ * 静态资源的扩展名，这些路径末尾不加 /
+ *
+ * 只按常见的资源类型判断：/blog/v1.2、/users/a.b 这样带 . 的动态参数仍然是页面
+ */
+const ASSET_EXTENSION_PATTERN =
+  /\.(?:html?|json|xml|txt|webmanifest|js|mjs|css|map|ico|png|jpe?g|gif|svg|webp|avif|woff2?|ttf|otf|eot|pdf|zip|mp4|webm|mp3|wav)$/i
+
+/**
+ * 按 trailingSlash 处理站内 URL 末尾的 /
+ *
+ * - true：/about -> /about/，/about?tab=1 -> /about/?tab=1
+ * - false：/about/ -> /about
+ * - 根路径 / 和静态资源（/robots.txt、/logo.png）保持不变
+ *
+ * @param url - 站内 URL（可以带查询字符串和 hash）
+ * @param trailingSlash - 是否以 / 结尾
+ * @returns 规范形式的 URL，站外地址原样返回
+ */
+export function normalizeTrailingSlash(url: string, trailingSlash: boolean): string {
+  if (!url.startsWith('/') || url.startsWith('//')) {
+    return url
+  }
+
+  const pathname = url.split(/[?#]/)[0] || '/'
+  const rest = url.slice(pathname.length)
+
+  if (pathname === '/') {
+    return url
+  }
+
+  if (!trailingSlash) {
+    return removeTrailingSlash(pathname) + rest
+  }
+
+  return pathname.endsWith('/') || ASSET_EXTENSION_PATTERN.test(pathname)
+    ? url
+    : `${pathname}/${rest}`
+}
+
+/**
+ * 去掉路径末尾的 /（匹配路由和规则时使用）
+ *
+ * @param pathname - 路径（如 /about/）
+ * @returns 路径（如 /about），根路径仍然是 /
+ */
+export function removeTrailingSlash(pathname: string): string {
+  return pathname.replace(/\/+$/, '') || '/'
+}
@@ -0,0 +1,27 @@
+import type { MiddlewareConfig, MiddlewareRequest, MiddlewareResult } from './types/index.js'
+
+/**
+ * 中间件示例
+ *
+ * 在匹配路由之前运行（包括客户端导航的数据请求），由 server/middleware.ts 加载
+ * - /docs/internal 下的文档需要 session Cookie，否则直接返回 401
+ * - A/B 分流：第一次访问时随机分配 bucket 并写入 Cookie，页面可以从请求头 x-bucket 读取
+ */
+export default function middleware(request: MiddlewareRequest): MiddlewareResult {
+  if (/\/docs\/internal(\/|$)/.test(request.pathname) && !request.cookies.session) {
+    return { response: { status: 401, body: '需要登录才能查看内部文档' } }
+  }
+
+  const bucket = request.cookies.bucket ?? (Math.random() < 0.5 ? 'a' : 'b')
+
+  return {
+    requestHeaders: { 'x-bucket': bucket },
+    headers: { 'X-Bucket': bucket },
+    cookies: request.cookies.bucket ? [] : [{ name: 'bucket', value: bucket, maxAge: 30 * 86400 }],
+  }
+}
+
+// 只在这些路径上运行（启用 i18n 时同样匹配 /en/about 等）
+export const config: MiddlewareConfig = {
+  matcher: ['/about', '/docs/:path*'],
+}
@@ -0,0 +1,50 @@
+import type { MiniConfig } from './types/index.js'
+
+/**
+ * Mini Next.js 配置
+ *
+ * 构建、开发服务器和生产服务器启动时由 build/config.ts 加载
+ * 目录可以通过 distDir（默认 .next）、pagesDir（默认 pages）、publicDir（默认 public）修改
+ */
+const config: MiniConfig = {
+  // 国际化路由：默认语言没有前缀（/about），英文带前缀（/en/about）
+  i18n: {
+    locales: ['zh-CN', 'en'],
+    defaultLocale: 'zh-CN',
+  },
+
+  // 页面 URL 不以 / 结尾（/about），/about/ 308 重定向到 /about；设为 true 时相反
+  trailingSlash: false,
+
+  // 重定向：在匹配路由之前处理，客户端导航（Link、router.push）也会按同样的规则跳转
+  redirects: () => [
+    // 旧地址永久重定向（308）
+    { source: '/old-blog/:id', destination: '/blog/:id', permanent: true },
+    // has 条件：/blog/1?category=tech -> /blog/tech/1，命名捕获组作为参数
+    {
+      source: '/blog/:id',
+      has: [{ type: 'query', key: 'category', value: '(?<category>tech|design|business)' }],
+      destination: '/blog/:category/:id',
+      permanent: false,
+    },
+  ],
+
+  // 重写：浏览器地址保持 /posts/1，渲染 /blog/1 的内容
+  rewrites: () => [{ source: '/posts/:id', destination: '/blog/:id' }],
+
+  // 自定义响应头，所有匹配的规则都生效
+  headers: () => [
+    {
+      source: '/blog/:path*',
+      headers: [{ key: 'X-Content-Source', value: 'mini-nextjs-blog' }],
+    },
+  ],
+
+  // 客户端 JS 体积预算（gzip 后的字节数），超出时构建失败
+  budgets: {
+    firstLoadJs: 100 * 1024,
+    pageJs: 20 * 1024,
+  },
+}
+
+export default config
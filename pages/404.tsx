@@ -0,0 +1,22 @@
+import Link from '../client/link.js'
+
+/**
+ * 自定义 404 页面
+ *
+ * 构建时预渲染为 404.html（和普通 SSG 页面一样，可以使用 getStaticProps）
+ * 任何未匹配的 URL 都会返回这个页面，状态码为 404
+ * 客户端导航到不存在的页面时，也会渲染这个组件
+ */
+export default function NotFound(): JSX.Element {
+  return (
+    <div className="container">
+      <div className="card">
+        <h1>404</h1>
+        <p>页面未找到</p>
+        <Link href="/" className="button">
+          返回首页
+        </Link>
+      </div>
+    </div>
+  )
+}
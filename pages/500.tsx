@@ -0,0 +1,21 @@
+import Link from '../client/link.js'
+
+/**
+ * 自定义 500 页面
+ *
+ * 构建时预渲染为 500.html，页面渲染或数据获取出错时返回，状态码为 500
+ * 不显示具体的错误信息，错误详情只记录在服务端日志中
+ */
+export default function ServerError(): JSX.Element {
+  return (
+    <div className="container">
+      <div className="card">
+        <h1>500</h1>
+        <p>服务器错误</p>
+        <Link href="/" className="button">
+          返回首页
+        </Link>
+      </div>
+    </div>
+  )
+}
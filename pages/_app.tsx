@@ -0,0 +1,25 @@
+import Head from '../client/head.js'
+import type { AppProps } from '../types/index.js'
+
+/**
+ * 自定义 App 组件
+ *
+ * 服务端（SSG / SSR）和客户端都会用它包裹每个页面
+ * 适合放置全局 Provider、持久化布局等只需要写一次的内容
+ *
+ * Component 是当前页面组件，pageProps 是它的数据
+ * （来自 getStaticProps / getServerSideProps）
+ *
+ * 这里的 <Head> 提供默认的标题和描述，页面中的 <title> 和相同 key 的标签会覆盖它们
+ */
+export default function MyApp({ Component, pageProps }: AppProps): JSX.Element {
+  return (
+    <>
+      <Head>
+        <title>Mini Next.js</title>
+        <meta key="description" name="description" content="Next.js Page Router 的最小实现" />
+      </Head>
+      <Component {...pageProps} />
+    </>
+  )
+}
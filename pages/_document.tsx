@@ -0,0 +1,27 @@
+import { Html, Head, Main, NextScript, useAssetPrefix } from '../client/document.js'
+
+/**
+ * 自定义 Document 组件
+ *
+ * 控制 SSG 和 SSR 共用的 HTML 外壳：<html> 属性、<head> 中的字体和样式、<body> 的 class 等
+ * 每个页面不同的 <title> 和 <meta> 用 client/head.tsx 的 <Head>，不要写在这里
+ * 只在服务端渲染，不会在客户端hydrate
+ *
+ * <Main /> 是页面内容的挂载点，<NextScript /> 输出 __NEXT_DATA__ 和客户端脚本，两者都不能省略
+ */
+export default function Document(): JSX.Element {
+  // 部署在子路径或 CDN 上时，public 目录的文件也需要加上前缀
+  const assetPrefix = useAssetPrefix()
+
+  return (
+    <Html lang="zh-CN">
+      <Head>
+        <link rel="stylesheet" href={`${assetPrefix}/styles.css`} />
+      </Head>
+      <body>
+        <Main />
+        <NextScript />
+      </body>
+    </Html>
+  )
+}
@@ -4,8 +4,8 @@ import type { GetStaticPropsResult } from '../types/index.js'
 /**
  * 关于页面组件
  *
- * 演示 SSG（静态生成）
- * 使用 getStaticProps 在构建时生成静态 HTML
+ * 演示 SSG（静态生成）+ ISR（增量静态再生成）
+ * 使用 getStaticProps 在构建时生成静态 HTML，每 60 秒最多重新生成一次
  */
 
 interface AboutProps {
@@ -59,6 +59,10 @@ export default function About({ buildTime, projectInfo }: AboutProps): JSX.Eleme
           <p>
             <strong>构建时间:</strong> {buildTime}
           </p>
+          <p>
+            页面设置了 <code>revalidate: 60</code>：生成超过 60 秒后的第一个请求仍然拿到旧页面，
+            同时服务器在后台重新生成，之后刷新就能看到新的构建时间。
+          </p>
 
           <p>
             这个页面是在构建时（运行 <code>npm run build</code> 时）预渲染的。
@@ -143,8 +147,9 @@ export default function About({ data }) {
  *
  * 这个函数在构建时运行
  * 返回的 props 会传递给页面组件，并生成静态 HTML
+ * 返回 revalidate 后，页面过期时还会在运行时重新执行（ISR）
  *
- * @returns 包含 props 的对象
+ * @returns 包含 props 和 revalidate 的对象
  */
 export async function getStaticProps(): Promise<GetStaticPropsResult<AboutProps>> {
   // 模拟数据获取
@@ -172,5 +177,7 @@ export async function getStaticProps(): Promise<GetStaticPropsResult<AboutProps>
       buildTime,
       projectInfo,
     },
+    // 60 秒后页面过期，下一次请求触发后台重新生成
+    revalidate: 60,
   }
 }
@@ -0,0 +1,15 @@
+import type { ApiRequest, ApiResponse } from '../../types/index.js'
+
+/**
+ * API 路由示例
+ *
+ * pages/api/hello.ts -> /api/hello
+ * 只在服务端运行，不会被打包进客户端，也不参与静态生成
+ */
+export default function handler(req: ApiRequest, res: ApiResponse): void {
+  res.json({
+    message: 'Hello from Mini Next.js API',
+    method: req.method,
+    time: new Date().toISOString(),
+  })
+}
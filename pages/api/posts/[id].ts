@@ -0,0 +1,33 @@
+import type { ApiConfig, ApiRequest, ApiResponse } from '../../../types/index.js'
+
+/**
+ * 动态 API 路由示例
+ *
+ * pages/api/posts/[id].ts -> /api/posts/:id
+ * 动态参数合并在 req.query 中，通过 req.method 区分不同的操作
+ */
+
+// 限制请求体大小（默认为 1mb，设为 false 可关闭解析）
+export const config: ApiConfig = {
+  api: {
+    bodyParser: { sizeLimit: '100kb' },
+  },
+}
+
+export default function handler(req: ApiRequest, res: ApiResponse): void {
+  const { id } = req.query
+
+  switch (req.method) {
+    case 'GET':
+      res.json({ id, title: `文章 #${id}` })
+      return
+
+    case 'PUT':
+      res.json({ id, updated: req.body })
+      return
+
+    default:
+      res.setHeader('Allow', 'GET, PUT')
+      res.status(405).json({ error: `Method ${req.method} Not Allowed` })
+  }
+}
@@ -0,0 +1,38 @@
+import type { ApiRequest, ApiResponse } from '../../types/index.js'
+
+/**
+ * 按需重新验证示例
+ *
+ * CMS 发布内容后调用：POST /api/revalidate?secret=<REVALIDATE_TOKEN>&path=/blog/1
+ * res.revalidate 会立即重新执行对应页面的 getStaticProps，覆盖预渲染的 HTML / JSON
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    res.status(405).json({ error: `Method ${req.method} Not Allowed` })
+    return
+  }
+
+  // 没有配置 REVALIDATE_TOKEN 时拒绝所有请求
+  if (!process.env.REVALIDATE_TOKEN || req.query.secret !== process.env.REVALIDATE_TOKEN) {
+    res.status(401).json({ error: 'Invalid token' })
+    return
+  }
+
+  const path = req.query.path
+
+  if (typeof path !== 'string') {
+    res.status(400).json({ error: '缺少 path 参数' })
+    return
+  }
+
+  try {
+    await res.revalidate(path)
+    res.json({ revalidated: true, path })
+  } catch (error) {
+    // 路径不存在或不是 SSG 页面时错误带有 status
+    const status = (error as { status?: number }).status || 500
+    const message = error instanceof Error ? error.message : String(error)
+    res.status(status).json({ revalidated: false, error: message })
+  }
+}
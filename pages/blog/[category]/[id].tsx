@@ -188,7 +188,8 @@ export async function getStaticPaths(): Promise<GetStaticPathsResult> {
 
   return {
     paths,
-    fallback: false,
+    // 未预生成的文章在第一次请求时生成，之后直接返回静态文件
+    fallback: 'blocking',
   }
 }
 
@@ -276,19 +277,23 @@ export async function getStaticProps({
     },
   }
 
-  const category: Category = categories[params.category!] || {
-    name: '未知分类',
-    slug: params.category || 'unknown',
-    description: '分类不存在',
+  // [category] 和 [id] 都是单段动态参数，值一定是字符串
+  const categorySlug = params.category as string
+  const id = params.id as string
+
+  // 旧的分类地址（/blog/dev/1）永久重定向到新地址
+  if (categorySlug === 'dev') {
+    return {
+      redirect: { destination: `/blog/tech/${id}`, permanent: true },
+    }
   }
 
-  const postKey = `${params.category}-${params.id}`
-  const post: Post = postsData[postKey!] || {
-    id: params.id || 'unknown',
-    title: '文章未找到',
-    author: 'Unknown',
-    date: new Date().toISOString().split('T')[0] || '',
-    content: '抱歉，找不到这篇文章。',
+  const category = categories[categorySlug]
+  const post = postsData[`${categorySlug}-${id}`]
+
+  // 分类或文章不存在：返回 404 页面（fallback: 'blocking' 时不会生成静态文件）
+  if (!category || !post) {
+    return { notFound: true }
   }
 
   return {
@@ -1,4 +1,5 @@
 import Link from '../../client/link.js'
+import Head from '../../client/head.js'
 import type {
   GetStaticPathsResult,
   GetStaticPropsContext,
@@ -11,6 +12,7 @@ import type {
  * 演示动态路由 + SSG
  * 使用 getStaticPaths 生成所有可能的路径
  * 使用 getStaticProps 为每个路径生成静态页面
+ * 使用 Head 为每篇文章设置标题和描述
  */
 
 interface Post {
@@ -28,6 +30,11 @@ interface BlogPostProps {
 export default function BlogPost({ post }: BlogPostProps): JSX.Element {
   return (
     <div>
+      <Head>
+        <title>{post.title} - Mini Next.js 博客</title>
+        <meta key="description" name="description" content={post.content.split('\n\n')[0]} />
+      </Head>
+
       {/* 导航栏 */}
       <nav>
         <ul>
@@ -222,8 +229,11 @@ React 会验证服务器和客户端的渲染结果是否一致，如果不一
     },
   }
 
-  const post: Post = posts[params.id!] || {
-    id: params.id || 'unknown',
+  // [id] 是单段动态参数，值一定是字符串
+  const id = params.id as string
+
+  const post: Post = posts[id] || {
+    id: id || 'unknown',
     title: '文章未找到',
     author: 'Unknown',
     date: new Date().toISOString().split('T')[0] || '',
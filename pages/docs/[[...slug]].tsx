@@ -0,0 +1,129 @@
+import Link from '../../client/link.js'
+import type {
+  GetStaticPathsResult,
+  GetStaticPropsContext,
+  GetStaticPropsResult,
+} from '../../types/index.js'
+
+/**
+ * 文档页面组件
+ *
+ * 演示可选 catch-all 路由 + SSG
+ * pages/docs/[[...slug]].tsx 同时匹配 /docs、/docs/routing、/docs/routing/dynamic
+ * params.slug 是路径片段数组（访问 /docs 时为空数组）
+ */
+
+interface Doc {
+  title: string
+  content: string
+}
+
+interface DocsProps {
+  slug: string[]
+  doc: Doc
+}
+
+const docs: Record<string, Doc> = {
+  '': {
+    title: '文档首页',
+    content: '欢迎阅读 Mini Next.js 文档。左侧链接展示了多级路径如何映射到同一个页面文件。',
+  },
+  'getting-started': {
+    title: '快速开始',
+    content: '运行 npm run build 构建项目，然后运行 npm start 启动服务器。',
+  },
+  routing: {
+    title: '路由',
+    content: 'pages 目录下的文件会自动映射为路由。',
+  },
+  'routing/dynamic': {
+    title: '动态路由',
+    content: '[id] 匹配单个路径片段，[...slug] 匹配一个或多个片段，[[...slug]] 还能匹配零个片段。',
+  },
+}
+
+export default function Docs({ slug, doc }: DocsProps): JSX.Element {
+  return (
+    <div>
+      {/* 导航栏 */}
+      <nav>
+        <ul>
+          <li>
+            <Link href="/">首页</Link>
+          </li>
+          <li>
+            <Link href="/docs">文档</Link>
+          </li>
+          <li>
+            <Link href="/docs/getting-started">快速开始</Link>
+          </li>
+          <li>
+            <Link href="/docs/routing/dynamic">动态路由</Link>
+          </li>
+        </ul>
+      </nav>
+
+      {/* 主要内容 */}
+      <div className="container">
+        <div className="card">
+          <h1>{doc.title}</h1>
+
+          <p>
+            <span className="badge ssg">SSG</span>
+            <span className="badge">可选 Catch-all</span>
+          </p>
+
+          <p>{doc.content}</p>
+
+          <p>
+            <strong>params.slug:</strong> <code>{JSON.stringify(slug)}</code>
+          </p>
+        </div>
+      </div>
+
+      <footer>
+        <p>Mini Next.js - 一个用于学习的简化版 Next.js Page Router</p>
+      </footer>
+    </div>
+  )
+}
+
+/**
+ * getStaticPaths
+ *
+ * catch-all 参数使用数组表示多级路径，空数组对应 /docs 本身
+ */
+export async function getStaticPaths(): Promise<GetStaticPathsResult> {
+  const paths = Object.keys(docs).map((key) => ({
+    params: { slug: key ? key.split('/') : [] },
+  }))
+
+  return {
+    paths,
+    fallback: false,
+  }
+}
+
+/**
+ * getStaticProps
+ *
+ * @param context - 上下文对象，params.slug 为路径片段数组
+ * @returns 包含 props 的对象
+ */
+export async function getStaticProps({
+  params,
+}: GetStaticPropsContext): Promise<GetStaticPropsResult<DocsProps>> {
+  const slug = (params.slug as string[] | undefined) || []
+
+  const doc: Doc = docs[slug.join('/')] || {
+    title: '文档未找到',
+    content: '抱歉，找不到这篇文档。',
+  }
+
+  return {
+    props: {
+      slug,
+      doc,
+    },
+  }
+}
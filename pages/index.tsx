@@ -11,9 +11,10 @@ import type { GetServerSidePropsContext, GetServerSidePropsResult } from '../typ
 interface HomeProps {
   serverTime: string
   visitCount: number
+  locale: string | null
 }
 
-export default function Home({ serverTime, visitCount }: HomeProps): JSX.Element {
+export default function Home({ serverTime, visitCount, locale }: HomeProps): JSX.Element {
   return (
     <div>
       {/* 导航栏 */}
@@ -31,6 +32,18 @@ export default function Home({ serverTime, visitCount }: HomeProps): JSX.Element
           <li>
             <Link href="/blog/tech/1">嵌套路由</Link>
           </li>
+          <li>
+            {/* 切换语言：当前页面的 URL 加上（或去掉）语言前缀 */}
+            {locale === 'en' ? (
+              <Link href="/" locale="zh-CN">
+                中文
+              </Link>
+            ) : (
+              <Link href="/" locale="en">
+                English
+              </Link>
+            )}
+          </li>
         </ul>
       </nav>
 
@@ -51,6 +64,11 @@ export default function Home({ serverTime, visitCount }: HomeProps): JSX.Element
           <p>
             访问次数: <strong>{visitCount}</strong>
           </p>
+          {locale && (
+            <p>
+              当前语言: <strong>{locale}</strong>
+            </p>
+          )}
 
           <p>每次刷新页面，这些数据都会更新，因为它们是在服务器端实时获取的。</p>
 
@@ -100,6 +118,7 @@ export default function Home({ serverTime, visitCount }: HomeProps): JSX.Element
             <li>✅ 客户端路由导航</li>
             <li>✅ React hydrate (Hydration)</li>
             <li>✅ Link 组件预取</li>
+            <li>✅ 国际化路由 (i18n)</li>
           </ul>
         </div>
       </div>
@@ -117,12 +136,12 @@ export default function Home({ serverTime, visitCount }: HomeProps): JSX.Element
  * 这个函数在每次请求时在服务器端运行
  * 返回的 props 会传递给页面组件
  *
- * @param context - 上下文对象，包含 req, res, params, query 等
+ * @param context - 上下文对象，包含 req, res, params, query, locale 等
  * @returns 包含 props 的对象
  */
-export async function getServerSideProps(
-  _context: GetServerSidePropsContext
-): Promise<GetServerSidePropsResult<HomeProps>> {
+export async function getServerSideProps({
+  locale,
+}: GetServerSidePropsContext): Promise<GetServerSidePropsResult<HomeProps>> {
   // 模拟数据库查询或 API 调用
   const serverTime = new Date().toLocaleString('zh-CN', {
     timeZone: 'Asia/Shanghai',
@@ -140,6 +159,8 @@ export async function getServerSideProps(
     props: {
       serverTime,
       visitCount: (global as any).visitCount,
+      // 未启用 i18n 时为 undefined，JSON 序列化需要 null
+      locale: locale ?? null,
     },
   }
 }
@@ -1,4 +1,5 @@
 import Link from '../../client/link.js'
+import { useRouter } from '../../client/router.js'
 import type { GetStaticPathsResult } from '../../types/index.js'
 
 /**
@@ -13,6 +14,19 @@ interface ProductProps {
 }
 
 export default function Product({ id }: ProductProps): JSX.Element {
+  const router = useRouter()
+
+  // fallback: true 时，未预生成的路径先渲染这个加载状态，数据就绪后再渲染页面
+  if (router?.isFallback) {
+    return (
+      <div className="container">
+        <div className="card">
+          <p>Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div>
       <nav>
@@ -101,7 +115,8 @@ export default function Product({ id }: ProductProps): JSX.Element {
 export async function getStaticPaths(): Promise<GetStaticPathsResult> {
   return {
     paths: [{ params: { id: '1' } }, { params: { id: '2' } }, { params: { id: '3' } }],
-    fallback: false,
+    // Other ids serve a fallback shell first, then get generated in the background
+    fallback: true,
   }
 }
 
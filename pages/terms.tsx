@@ -1,4 +1,6 @@
 import Link from '../client/link.js'
+import Head from '../client/head.js'
+import styles from './terms.module.css'
 
 /**
  * 服务条款页面
@@ -12,10 +14,16 @@ import Link from '../client/link.js'
  * - 极快的响应速度
  *
  * 这是最常见的页面类型：营销页面、法律条款、帮助文档等。
+ *
+ * 样式来自 terms.module.css（CSS Modules），只在这个页面加载
  */
 export default function Terms(): JSX.Element {
   return (
     <div>
+      <Head>
+        <title>服务条款 - Mini Next.js</title>
+      </Head>
+
       {/* 导航栏 */}
       <nav>
         <ul>
@@ -36,7 +44,7 @@ export default function Terms(): JSX.Element {
 
       {/* 主要内容 */}
       <div className="container">
-        <div className="card">
+        <div className={`card ${styles.content}`}>
           <h1>服务条款</h1>
 
           <p>
@@ -44,7 +52,7 @@ export default function Terms(): JSX.Element {
             <span className="badge">纯静态</span>
           </p>
 
-          <p className="intro">
+          <p className={styles.intro}>
             这是一个<strong>纯静态页面</strong>，展示了 Next.js 的默认静态生成能力。
           </p>
 
@@ -55,7 +63,7 @@ export default function Terms(): JSX.Element {
             这类页面在构建时就会生成完整的 HTML 文件。
           </p>
 
-          <div className="info-box">
+          <div className={styles.infoBox}>
             <h3>📦 构建时生成</h3>
             <p>
               运行 <code>npm run build</code> 时，Mini Next.js 会自动：
@@ -88,7 +96,7 @@ export default function Terms() {
 
           <h2>与其他页面类型的对比</h2>
 
-          <table style={{ width: '100%', marginTop: '1rem' }}>
+          <table className={styles.table}>
             <thead>
               <tr>
                 <th>页面类型</th>
@@ -146,7 +154,7 @@ export default function Terms() {
 
           <h2>为什么纯静态页面也要生成 HTML？</h2>
 
-          <div className="info-box">
+          <div className={styles.infoBox}>
             <h3>💡 设计理念：Static by default</h3>
             <p>
               Next.js 的核心理念是<strong>"默认静态"</strong>：
@@ -244,76 +252,6 @@ export default function Terms() {
           </p>
         </div>
       </div>
-
-      <style>{`
-        .intro {
-          font-size: 1.1rem;
-          background: #f0f9ff;
-          padding: 1rem;
-          border-left: 4px solid #0ea5e9;
-          margin: 1.5rem 0;
-        }
-
-        .info-box {
-          background: #f8fafc;
-          border: 1px solid #e2e8f0;
-          border-radius: 8px;
-          padding: 1.5rem;
-          margin: 1.5rem 0;
-        }
-
-        .info-box h3 {
-          margin-top: 0;
-          color: #0f172a;
-        }
-
-        .info-box ul {
-          margin-bottom: 0;
-        }
-
-        table {
-          border-collapse: collapse;
-          margin: 1rem 0;
-        }
-
-        th,
-        td {
-          border: 1px solid #e2e8f0;
-          padding: 0.75rem;
-          text-align: left;
-        }
-
-        th {
-          background: #f8fafc;
-          font-weight: 600;
-        }
-
-        tbody tr:hover {
-          background: #f8fafc;
-        }
-
-        code {
-          background: #f1f5f9;
-          padding: 0.2rem 0.4rem;
-          border-radius: 3px;
-          font-size: 0.9em;
-          font-family: 'Monaco', 'Menlo', monospace;
-        }
-
-        pre {
-          background: #1e293b;
-          color: #e2e8f0;
-          padding: 1rem;
-          border-radius: 8px;
-          overflow-x: auto;
-          margin: 1rem 0;
-        }
-
-        pre code {
-          background: transparent;
-          color: inherit;
-        }
-      `}</style>
     </div>
   )
 }
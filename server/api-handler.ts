@@ -0,0 +1,121 @@
+import express, { RequestHandler } from 'express'
+import type { Request, Response } from 'express'
+import { revalidatePath } from './render-ssg.js'
+import { importPageModule } from './dev-server.js'
+import type { MatchResult, ApiModule, ApiConfig, ApiResponse } from '../types/index.js'
+
+/**
+ * API 路由处理器
+ *
+ * 负责执行 pages/api/** 下导出的 (req, res) 处理函数
+ * 类似于 Next.js 的 API Routes
+ *
+ * - 所有 HTTP 方法都会交给处理函数，由它自己判断 req.method
+ * - 动态路由参数会合并到 req.query 中（/api/posts/[id] -> req.query.id）
+ * - 默认解析 JSON 和 urlencoded 请求体，可以通过导出的 config 关闭或限制大小
+ * - res.revalidate(path) 立即重新生成指定的 SSG 页面（按需重新验证）
+ */
+
+/**
+ * 默认的请求体大小限制
+ */
+const DEFAULT_SIZE_LIMIT = '1mb'
+
+/**
+ * 按大小限制缓存的请求体解析中间件（避免每个请求都重新创建）
+ */
+const bodyParsers = new Map<string, RequestHandler[]>()
+
+/**
+ * 处理 API 请求
+ *
+ * @param matchResult - 路由匹配结果
+ * @param req - Express 请求对象
+ * @param res - Express 响应对象
+ * @param staticDir - 静态文件目录（res.revalidate 重新生成的页面写入这里）
+ * @param projectRoot - 项目根目录
+ */
+export async function handleApiRequest(
+  matchResult: MatchResult,
+  req: Request,
+  res: Response,
+  staticDir: string,
+  projectRoot: string
+): Promise<void> {
+  const { route, params } = matchResult
+
+  try {
+    // 1. 动态加载 API 模块（开发模式下每次拿到最新的模块）
+    const apiModule = await importPageModule<ApiModule>(route.componentPath)
+    const handler = apiModule.default
+
+    if (typeof handler !== 'function') {
+      throw new Error(`${route.componentPath} 没有默认导出处理函数`)
+    }
+
+    // 2. 按路由配置解析请求体
+    await parseBody(req, res, apiModule.config)
+
+    // 3. 将动态路由参数合并到 req.query（路由参数优先）
+    Object.assign(req.query, params)
+
+    // 4. 添加 res.revalidate 辅助方法
+    const apiRes: ApiResponse = Object.assign(res, {
+      revalidate: (urlPath: string) => revalidatePath(urlPath, staticDir, projectRoot),
+    })
+
+    // 5. 执行处理函数
+    await handler(req, apiRes)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`❌ API 路由 ${route.path} 执行失败:`, message)
+
+    // 处理函数可能已经开始响应，这时只能结束请求
+    if (res.headersSent) {
+      res.end()
+      return
+    }
+
+    // 请求体解析失败（JSON 格式错误、超过大小限制等）时 body-parser 会带上 4xx 状态码
+    const status = (error as { status?: number }).status
+
+    if (status && status >= 400 && status < 500) {
+      res.status(status).json({ error: message })
+      return
+    }
+
+    res.status(500).json({ error: 'Internal Server Error' })
+  }
+}
+
+/**
+ * 根据 config.api.bodyParser 解析请求体
+ *
+ * @param req - Express 请求对象
+ * @param res - Express 响应对象
+ * @param config - API 路由配置
+ */
+async function parseBody(req: Request, res: Response, config?: ApiConfig): Promise<void> {
+  const bodyParser = config?.api?.bodyParser
+
+  // bodyParser: false -> 不解析，处理函数自己读取原始请求流
+  if (bodyParser === false) {
+    return
+  }
+
+  const sizeLimit = bodyParser?.sizeLimit || DEFAULT_SIZE_LIMIT
+
+  if (!bodyParsers.has(sizeLimit)) {
+    bodyParsers.set(sizeLimit, [
+      express.json({ limit: sizeLimit }),
+      express.urlencoded({ extended: true, limit: sizeLimit }),
+    ])
+  }
+
+  // 依次执行 Express 中间件，任何一个出错（如请求体过大）都会抛出
+  for (const parser of bodyParsers.get(sizeLimit)!) {
+    await new Promise<void>((resolve, reject) => {
+      parser(req, res, (error?: unknown) => (error ? reject(error) : resolve()))
+    })
+  }
+}
@@ -0,0 +1,187 @@
+import path from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import type { Express } from 'express'
+import type { Plugin, ViteDevServer } from 'vite'
+import type { MiniConfig, RouteManifest } from '../types/index.js'
+import { scanPages, scanSpecialPages } from '../build/scan-pages.js'
+import { generateRoutes } from '../build/generate-routes.js'
+import { writeRouteTypes } from '../build/route-types.js'
+import { PAGES_ALIAS, compileRouteRules, resolveDirs } from '../build/config.js'
+import { setManifest } from './router.js'
+
+/**
+ * 开发服务器
+ *
+ * npm run dev 时使用，不需要先运行 npm run build：
+ * - Vite 以中间件模式嵌入 Express，按需编译客户端代码，支持 HMR 和 React Fast Refresh
+ * - 启动时扫描 pages 目录生成路由清单，新增或删除页面文件时重新扫描
+ * - 所有页面（包括 getStaticProps 页面）都在请求时渲染，不读取 .next 中的构建产物
+ * - 服务端通过 Vite 的 ssrLoadModule 加载页面，修改页面或它导入的模块后刷新即可看到效果
+ */
+
+/**
+ * 框架的 client 目录（Link、Head、Context 等，页面通过相对路径导入）
+ */
+const CLIENT_DIR = fileURLToPath(new URL('../client', import.meta.url))
+  .split(path.sep)
+  .join('/')
+
+/**
+ * 服务端渲染时共用的框架模块，键为模块的 file URL
+ */
+const clientModules = new Map<string, Record<string, unknown>>()
+Object.assign(globalThis, { [Symbol.for('mini-next.client-modules')]: clientModules })
+
+/**
+ * Vite 开发服务器实例（生产模式为 null）
+ */
+let viteServer: ViteDevServer | null = null
+
+/**
+ * 启动开发模式
+ *
+ * @param app - Express 应用
+ * @param projectRoot - 项目根目录
+ * @param config - 项目配置（mini.config.ts 修改后需要重启）
+ */
+export async function createDevServer(
+  app: Express,
+  projectRoot: string,
+  config: MiniConfig
+): Promise<void> {
+  // 只在开发模式加载 Vite，生产服务器不依赖它
+  const { createServer } = await import('vite')
+
+  // 扫描 pages 目录生成路由清单，重定向等规则只在启动时编译一次
+  const { pagesDir } = resolveDirs(projectRoot, config)
+  const rules = await compileRouteRules(config)
+  const scan = (): void => scanRoutes(projectRoot, config, rules)
+  scan()
+
+  viteServer = await createServer({
+    root: projectRoot,
+    // 客户端入口通过别名收集页面（pagesDir 可以配置）
+    resolve: { alias: [{ find: PAGES_ALIAS, replacement: pagesDir }] },
+    // 部署在子路径下时，Vite 在模块 URL 和 transformIndexHtml 输出的脚本、样式地址前加上 basePath
+    base: `${config.basePath ?? ''}/`,
+    // 中间件模式：由 Express 处理页面请求，Vite 只负责模块编译和 HMR
+    server: { middlewareMode: true },
+    appType: 'custom',
+    plugins: [sharedClientModules()],
+  })
+
+  // 提供 /@vite/client、/client/index.tsx、页面源码等开发模块
+  // Vite 会去掉 req.url 中的 base，交给后面的页面处理前恢复原来的 URL（basePath 由服务器统一处理）
+  const vite = viteServer
+  app.use((req, res, next) => {
+    const { url } = req
+    vite.middlewares(req, res, () => {
+      req.url = url
+      next()
+    })
+  })
+
+  // 新增或删除页面文件时重新生成路由清单（修改文件内容不影响路由）
+  const onPagesChange = (file: string): void => {
+    if (file.startsWith(pagesDir + path.sep)) {
+      console.log(`🔁 pages 目录发生变化，重新扫描路由: ${path.relative(projectRoot, file)}`)
+      scan()
+    }
+  }
+
+  viteServer.watcher.on('add', onPagesChange)
+  viteServer.watcher.on('unlink', onPagesChange)
+}
+
+/**
+ * 获取 Vite 开发服务器
+ * @returns Vite 实例，生产模式返回 null
+ */
+export function getViteServer(): ViteDevServer | null {
+  return viteServer
+}
+
+/**
+ * 导入页面模块（pages 目录下的页面、API 路由和特殊文件）
+ *
+ * 生产模式用 Node 导入，模块只加载一次；
+ * 开发模式交给 vite.ssrLoadModule：Vite 跟踪页面导入的所有模块，文件改动后使它和导入它的模块失效，
+ * 下次请求时重新编译（CSS Modules 等也由 Vite 处理）
+ *
+ * @param filePath - 模块文件路径
+ * @returns 模块
+ */
+export async function importPageModule<M>(filePath: string): Promise<M> {
+  if (!viteServer) {
+    return (await import(pathToFileURL(path.resolve(filePath)).href)) as M
+  }
+
+  return (await viteServer.ssrLoadModule(path.resolve(filePath))) as M
+}
+
+/**
+ * Vite 插件：服务端渲染时页面使用 Node 已经加载的框架模块
+ *
+ * 渲染器（render-ssr 等）由 Node 导入 client 目录的模块，向页面提供 LocaleContext、HeadManagerContext 等；
+ * 页面通过 ssrLoadModule 加载时，Vite 默认会把它导入的 client 模块再编译一份，
+ * 得到另一组 Context 对象，页面中的 Link、Head 就读不到渲染器提供的值。
+ * 这里把这些模块替换为转发 Node 模块导出的代码（框架代码修改后需要重启）
+ *
+ * @returns Vite 插件
+ */
+function sharedClientModules(): Plugin {
+  return {
+    name: 'mini-next:shared-client-modules',
+    enforce: 'pre',
+
+    async load(id, options) {
+      const file = id.split('?')[0] || ''
+
+      if (!options?.ssr || !file.startsWith(`${CLIENT_DIR}/`)) {
+        return null
+      }
+
+      const url = pathToFileURL(file).href
+      const module = (await import(url)) as Record<string, unknown>
+      clientModules.set(url, module)
+
+      const names = Object.keys(module).filter((name) => name !== 'default')
+      const lines = [
+        `const module = globalThis[Symbol.for('mini-next.client-modules')].get(${JSON.stringify(url)})`,
+        `export const { ${names.join(', ')} } = module`,
+      ]
+
+      if ('default' in module) {
+        lines.push('export default module.default')
+      }
+
+      return lines.join('\n')
+    },
+  }
+}
+
+/**
+ * 扫描页面目录，更新路由清单和路由类型
+ *
+ * 开发模式下页面的渲染方式在请求时决定，路由的 renderType 保持为 null（API 路由除外）
+ *
+ * @param projectRoot - 项目根目录
+ * @param config - 项目配置（目录、i18n、basePath、trailingSlash）
+ * @param rules - 编译后的重定向、重写和自定义响应头规则
+ */
+function scanRoutes(
+  projectRoot: string,
+  config: MiniConfig,
+  rules: Pick<RouteManifest, 'redirects' | 'rewrites' | 'headers'>
+): void {
+  const { pagesDir, distDir } = resolveDirs(projectRoot, config)
+  const manifest = generateRoutes(scanPages(pagesDir), scanSpecialPages(pagesDir))
+  manifest.i18n = config.i18n
+  // 脚本和样式地址由 Vite 加上 base，assetPrefix 保持为空
+  manifest.basePath = config.basePath ?? ''
+  manifest.trailingSlash = config.trailingSlash ?? false
+  Object.assign(manifest, rules)
+  setManifest(manifest)
+  writeRouteTypes(manifest, distDir)
+  console.log(`✓ 扫描到 ${manifest.routes.length} 个路由`)
+}
@@ -1,9 +1,31 @@
 import express, { Request, Response, NextFunction } from 'express'
+import fs from 'fs'
 import path from 'path'
+import crypto from 'crypto'
 import { fileURLToPath } from 'url'
-import { loadManifest, matchRoute } from './router.js'
-import { renderSSG, getSSGData } from './render-ssg.js'
+import { loadManifest, matchRoute, getManifest, detectLocale, getCanonicalPath } from './router.js'
+import { renderSSG, getSSGData, revalidatePath } from './render-ssg.js'
 import { renderSSR, getSSRData } from './render-ssr.js'
+import { renderErrorPage, getErrorData } from './render-error.js'
+import { handleApiRequest } from './api-handler.js'
+import { createDevServer } from './dev-server.js'
+import { renderDevPage, getDevPageData } from './render-dev.js'
+import { findMiddleware, runMiddleware } from './middleware.js'
+import { registerCssLoader } from '../build/css-loader.js'
+import { loadConfig, resolveDirs } from '../build/config.js'
+import { loadEnvFiles } from '../build/env.js'
+import { addLocale, getLocaleInfo, splitLocale } from '../client/i18n.js'
+import { addBasePath, removeBasePath } from '../client/base-path.js'
+import { normalizeTrailingSlash } from '../client/trailing-slash.js'
+import { applyParams, matchRule, parseCookies } from '../client/route-rules.js'
+import type { RuleRequest } from '../client/route-rules.js'
+import type {
+  MiddlewareRequest,
+  RouteParams,
+  PageRedirectData,
+  SSGRenderResult,
+  SSRRenderResult,
+} from '../types/index.js'
 
 /**
  * Mini Next.js Server
@@ -13,6 +35,13 @@ import { renderSSR, getSSRData } from './render-ssr.js'
  * 2. Serve SSG pages (pre-rendered HTML)
  * 3. Render SSR pages (dynamic rendering)
  * 4. Client navigation API (JSON data)
+ * 5. Error pages (404 / 500)
+ * 6. API routes (pages/api/**)
+ * 7. Incremental Static Regeneration (getStaticProps revalidate)
+ * 8. On-demand revalidation (res.revalidate / POST /_next/revalidate)
+ * 9. Development mode (npm run dev: Vite middleware, HMR, on-demand rendering)
+ * 10. Redirects, rewrites and custom headers from mini.config.ts
+ * 11. Middleware (middleware.ts) before route matching
  */
 
 // 获取当前文件的目录路径（ESM 中没有 __dirname）
@@ -20,28 +49,388 @@ const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 const projectRoot = path.resolve(__dirname, '..')
 
+// 页面可以导入 CSS / CSS Modules，服务端渲染前注册加载钩子
+registerCssLoader(projectRoot)
+
+// 开发模式（npm run dev）：不读取构建产物，所有页面按需渲染
+const dev = process.argv.includes('--dev')
+
+// 环境变量（.env 文件），在读取 PORT 等变量和加载 mini.config.ts 之前加载
+const envFiles = loadEnvFiles(projectRoot, dev ? 'development' : 'production')
+
 const app = express()
 const PORT = process.env.PORT || 3000
 
+// 项目配置（mini.config.ts）：构建输出、页面和静态文件目录
+const config = await loadConfig(projectRoot)
+const { distDir, publicDir } = resolveDirs(projectRoot, config)
+
+// 构建输出的静态文件目录（预渲染的 HTML/JSON 和客户端 bundle）
+const staticDir = path.join(distDir, 'static')
+
 // ==================== 初始化 ====================
-console.log('\n🚀 Mini Next.js 服务器启动中...\n')
-
-// 加载路由清单
-const manifestPath = path.join(projectRoot, '.next/manifest.json')
-try {
-  loadManifest(manifestPath)
-} catch (error) {
-  console.error('❌ 请先运行 npm run build 构建项目')
-  process.exit(1)
+console.log(`\n🚀 Mini Next.js ${dev ? '开发' : ''}服务器启动中...\n`)
+
+if (envFiles.length > 0) {
+  console.log(`🔑 环境变量: ${envFiles.join(', ')}`)
+}
+
+if (dev) {
+  // 扫描 pages 目录生成路由清单，Vite 中间件提供客户端模块和 HMR
+  await createDevServer(app, projectRoot, config)
+} else {
+  // 加载路由清单
+  const manifestPath = path.join(distDir, 'manifest.json')
+  try {
+    loadManifest(manifestPath)
+  } catch (error) {
+    console.error('❌ 请先运行 npm run build 构建项目')
+    process.exit(1)
+  }
+}
+
+// ==================== basePath ====================
+
+/**
+ * 部署在子路径下（mini.config.ts 的 basePath）时，只处理 basePath 下的请求
+ * 去掉前缀后交给后面的静态文件、API 和页面处理，它们看到的都是应用内的路径
+ */
+const { basePath } = getManifest()
+
+if (basePath) {
+  app.use(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const pathname = removeBasePath(req.path, basePath)
+
+    if (pathname === null) {
+      await sendError(res, 404, 'html')
+      return
+    }
+
+    req.url = pathname + req.url.slice(req.path.length)
+    next()
+  })
+}
+
+// ==================== URL 规范化 ====================
+
+/**
+ * 同一个页面只有一个 URL：重复的 /、大小写不一致、不符合 trailingSlash 的路径 308 重定向到规范形式
+ * /_next/ 下的框架内部请求和实际存在的静态文件（如 public/data.yaml）不处理
+ */
+app.use((req: Request, res: Response, next: NextFunction): void => {
+  if (req.path.startsWith('/_next/')) {
+    next()
+    return
+  }
+
+  const canonical = getCanonicalPath(req.path)
+
+  if (canonical !== req.path && !isStaticFile(req.path)) {
+    const search = req.url.slice(req.path.length)
+    res.redirect(308, addBasePath(canonical + search, basePath))
+    return
+  }
+
+  next()
+})
+
+// ==================== 重定向、重写和自定义响应头 ====================
+
+/**
+ * mini.config.ts 中的 headers / redirects / rewrites，在静态文件和路由匹配之前处理
+ *
+ * - headers：所有匹配的规则都生效
+ * - redirects：第一条匹配的规则直接返回 307 / 308
+ * - rewrites：第一条匹配的规则改写 req.url，后面按目标路径匹配路由，浏览器地址不变
+ *
+ * source 匹配的是去掉 basePath 和语言前缀之后的路径（与路由相同），站内的目标地址加回请求的语言前缀；
+ * 客户端导航的数据请求与中间件一样按它要加载的页面路径处理，其他 /_next/ 下的框架内部请求不处理
+ */
+const { headers, redirects, rewrites, i18n } = getManifest()
+
+if (headers.length || redirects.length || rewrites.length) {
+  app.use((req: Request, res: Response, next: NextFunction): void => {
+    const dataPrefix = `/_next/data/${getManifest().buildId}/`
+    const isDataRequest = req.path.startsWith(dataPrefix) && req.path.endsWith('.json')
+
+    if (req.path.startsWith('/_next/') && !isDataRequest) {
+      next()
+      return
+    }
+
+    const request: RuleRequest = {
+      query: req.query as RuleRequest['query'],
+      cookies: parseCookies(req.get('cookie')),
+      headers: req.headers,
+    }
+    const search = req.url.slice(req.path.length)
+    const pagePath = isDataRequest
+      ? getDataPagePath(req.path.slice(dataPrefix.length, -'.json'.length))
+      : req.path
+    const { pathname, locale } = splitLocale(pagePath, i18n?.locales ?? [])
+
+    for (const rule of headers) {
+      const params = matchRule(rule, pathname, request)
+
+      if (params) {
+        rule.headers.forEach(({ key, value }) => res.set(key, applyParams(value, params)))
+      }
+    }
+
+    for (const rule of redirects) {
+      const params = matchRule(rule, pathname, request)
+
+      if (params) {
+        // 目标地址直接使用规范形式，避免再被末尾斜杠的规范化重定向一次
+        const destination = normalizeTrailingSlash(
+          addLocale(applyParams(rule.destination, params, search), locale, i18n ?? {}),
+          getManifest().trailingSlash
+        )
+        console.log(`↪️  ${pagePath} -> ${destination} (${rule.statusCode})`)
+
+        // 数据请求只返回目标地址，由客户端路由跟随跳转
+        if (isDataRequest) {
+          res.json({ redirect: { destination, statusCode: rule.statusCode } })
+        } else {
+          res.redirect(rule.statusCode, addBasePath(destination, basePath))
+        }
+        return
+      }
+    }
+
+    for (const rule of rewrites) {
+      const params = matchRule(rule, pathname, request)
+
+      if (params) {
+        const destination = addLocale(
+          applyParams(rule.destination, params, search),
+          locale,
+          i18n ?? {}
+        )
+        const [destinationPath = '/', destinationSearch = ''] = destination.split(/\?(.*)/s)
+        console.log(`🔀 ${pagePath} -> ${destinationPath} (rewrite)`)
+
+        req.url = isDataRequest
+          ? `${dataPrefix}${getDataFileName(destinationPath)}.json${destinationSearch && `?${destinationSearch}`}`
+          : destination
+        break
+      }
+    }
+
+    next()
+  })
 }
 
 // ==================== 静态资源服务 ====================
 
-// 提供客户端 JavaScript 和 CSS
-app.use(express.static(path.join(projectRoot, '.next/static')))
+if (!dev) {
+  // 提供客户端 JavaScript 和 CSS
+  // redirect: false - SSG 输出中 /docs.html 与 /docs/ 目录可能并存，
+  // 不能让 express.static 把 /docs 重定向到 /docs/，交给页面路由处理
+  // index: false - trailingSlash 时页面输出为 about/index.html，/about/ 同样交给页面路由处理
+  const serveBuildAssets = express.static(staticDir, { redirect: false, index: false })
+
+  // 预渲染的页面（.html）和数据（.json）也在这个目录中，不能直接按文件名访问：
+  // 它们只通过页面路由和 /_next/data 提供，这样中间件、ISR 等逻辑不会被 /docs/internal.html 这样的地址绕过
+  app.use((req: Request, res: Response, next: NextFunction): void => {
+    if (/\.(html|json)$/.test(req.path)) {
+      next()
+      return
+    }
+
+    serveBuildAssets(req, res, next)
+  })
+}
 
 // 提供 public 目录下的静态文件
-app.use(express.static(path.join(projectRoot, 'public')))
+// redirect: false - 去掉 basePath 后 /shop 变为 /，不能按原始 URL 重定向到 /shop/，交给首页处理
+app.use(express.static(publicDir, { redirect: false }))
+
+// ==================== 中间件 ====================
+
+/**
+ * 项目根目录的 middleware.ts（新增或删除文件后需要重启）
+ *
+ * 在静态文件和 mini.config.ts 的规则之后、API 路由和页面之前运行，看到的是重写后的路径；
+ * 客户端导航的数据请求按它要加载的页面路径运行，重定向和重写的结果与直接访问页面一致
+ */
+const middlewarePath = findMiddleware(projectRoot)
+
+if (middlewarePath) {
+  console.log(`🛡️  已加载中间件: ${path.relative(projectRoot, middlewarePath)}`)
+
+  app.use(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { buildId, i18n } = getManifest()
+    const dataPrefix = `/_next/data/${buildId}/`
+    const isDataRequest = req.path.startsWith(dataPrefix) && req.path.endsWith('.json')
+
+    // 其他框架内部请求（按需重新验证、旧版本的数据请求等）不经过中间件
+    if (req.path.startsWith('/_next/') && !isDataRequest) {
+      next()
+      return
+    }
+
+    const pathname = isDataRequest
+      ? getDataPagePath(req.path.slice(dataPrefix.length, -'.json'.length))
+      : req.path
+    const search = req.url.slice(req.path.length)
+
+    const request: MiddlewareRequest = {
+      method: req.method,
+      pathname,
+      query: req.query as MiddlewareRequest['query'],
+      headers: req.headers,
+      cookies: parseCookies(req.get('cookie')),
+      locale: getLocaleInfo(i18n, splitLocale(pathname, i18n?.locales ?? []).locale).locale,
+      isDataRequest,
+    }
+
+    try {
+      const result = await runMiddleware(middlewarePath, request)
+
+      if (!result) {
+        next()
+        return
+      }
+
+      // 请求头对后面的 API 路由和 getServerSideProps 可见
+      for (const [key, value] of Object.entries(result.requestHeaders ?? {})) {
+        req.headers[key.toLowerCase()] = value
+      }
+
+      res.set(result.headers ?? {})
+
+      // Max-Age 以秒为单位，Express 的 maxAge 是毫秒
+      result.cookies?.forEach(({ name, value, maxAge, path: cookiePath = '/', ...options }) => {
+        res.cookie(name, value, {
+          ...options,
+          path: cookiePath,
+          maxAge: maxAge === undefined ? undefined : maxAge * 1000,
+        })
+      })
+
+      // 直接响应：数据请求带上标记，客户端改为整页加载，由浏览器展示这个响应
+      if (result.response) {
+        const { status = 200, body } = result.response
+        console.log(`🛡️  ${req.method} ${pathname} -> ${status} (middleware)`)
+
+        if (isDataRequest) {
+          res.set('X-Middleware-Response', '1')
+        }
+
+        res.status(status)
+
+        if (body === undefined) {
+          res.end()
+        } else if (typeof body === 'string') {
+          res.send(body)
+        } else {
+          res.json(body)
+        }
+        return
+      }
+
+      if (result.redirect) {
+        const { destination, permanent } = result.redirect
+        const statusCode = permanent ? 308 : 307
+        console.log(`🛡️  ${pathname} -> ${destination} (middleware ${statusCode})`)
+
+        // 数据请求只返回目标地址，由客户端路由跟随跳转
+        if (isDataRequest) {
+          res.json({ redirect: { destination, statusCode } })
+        } else {
+          res.redirect(statusCode, addBasePath(destination, basePath))
+        }
+        return
+      }
+
+      if (result.rewrite) {
+        if (!result.rewrite.startsWith('/') || result.rewrite.startsWith('//')) {
+          throw new Error(`rewrite 必须是站内路径: ${result.rewrite}`)
+        }
+
+        // 目标地址保持当前语言；没有查询字符串时沿用原来的
+        const localized = addLocale(result.rewrite, request.locale, i18n ?? {})
+        const rewrite = localized.includes('?') ? localized : localized + search
+        const [rewritePath = '/', rewriteSearch = ''] = rewrite.split(/\?(.*)/s)
+        console.log(`🛡️  ${pathname} -> ${rewritePath} (middleware rewrite)`)
+
+        req.url = isDataRequest
+          ? `${dataPrefix}${getDataFileName(rewritePath)}.json${rewriteSearch && `?${rewriteSearch}`}`
+          : rewrite
+      }
+
+      next()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`❌ 中间件执行失败 (${pathname}):`, message)
+      await sendError(res, 500, isDataRequest ? 'json' : 'html')
+    }
+  })
+}
+
+// ==================== API 路由 ====================
+
+/**
+ * pages/api/** 下的 API 路由
+ * 接收所有 HTTP 方法，匹配到的不是 API 路由时交给后面的页面处理
+ */
+app.all('*', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const matchResult = matchRoute(req.path)
+
+  if (!matchResult || matchResult.route.renderType !== 'api') {
+    next()
+    return
+  }
+
+  console.log(`🔌 ${req.method} ${req.path} -> API`)
+  await handleApiRequest(matchResult, req, res, staticDir, projectRoot)
+})
+
+// ==================== 按需重新验证接口 ====================
+
+/**
+ * 供 CMS 等外部系统调用的内部接口，立即重新生成指定的 SSG 页面
+ *
+ * POST /_next/revalidate
+ * Authorization: Bearer <REVALIDATE_TOKEN>
+ * { "path": "/blog/123" }
+ *
+ * 只有设置了 REVALIDATE_TOKEN 环境变量时才启用
+ */
+const revalidateToken = process.env.REVALIDATE_TOKEN
+
+if (revalidateToken) {
+  app.post(
+    '/_next/revalidate',
+    express.json(),
+    async (req: Request, res: Response): Promise<void> => {
+      if (!isValidToken(req.get('authorization'), revalidateToken)) {
+        res.status(401).json({ revalidated: false, error: 'Invalid token' })
+        return
+      }
+
+      const urlPath = req.body?.path
+
+      if (typeof urlPath !== 'string') {
+        res.status(400).json({ revalidated: false, error: '请求体缺少 path 字段' })
+        return
+      }
+
+      try {
+        await revalidatePath(urlPath, staticDir, projectRoot)
+        res.json({ revalidated: true, path: urlPath, now: Date.now() })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.error(`❌ 重新验证 ${urlPath} 失败:`, message)
+
+        // 路径无法重新验证时带有 4xx 状态码，其他错误（getStaticProps 抛错等）返回 500
+        const status = (error as { status?: number }).status || 500
+        res.status(status).json({ revalidated: false, error: message })
+      }
+    }
+  )
+}
 
 // ==================== API: 客户端导航数据接口 ====================
 
@@ -49,46 +438,81 @@ app.use(express.static(path.join(projectRoot, 'public')))
  * 这个接口用于客户端路由导航
  * 当用户点击 Link 组件时，会请求这个接口获取新页面的数据
  * 而不是重新加载整个 HTML 页面
+ *
+ * GET /_next/data/<buildId>/blog/123.json（首页为 /_next/data/<buildId>/index.json）
+ * 启用 i18n 时非默认语言带前缀：/_next/data/<buildId>/en/blog/123.json、/_next/data/<buildId>/en/index.json
+ * 与静态导出（npm run export）的数据文件路径一致，导出后的站点不需要服务器
+ *
+ * buildId 来自页面的 __NEXT_DATA__，与当前构建不一致时返回 409，
+ * 说明浏览器中运行的是旧版本的客户端代码，由客户端整页加载目标页面
  */
-app.get('*', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  // 检查是否为客户端导航请求
-  const isClientNavigation = req.query._next_data === '1'
+app.get('/_next/data/:buildId/*', async (req: Request, res: Response): Promise<void> => {
+  // 新版本部署后，旧页面请求的数据可能与旧的页面组件不兼容
+  const { buildId } = getManifest()
 
-  if (!isClientNavigation) {
-    next() // 继续到下一个中间件（HTML 渲染）
+  if (req.params.buildId !== buildId) {
+    console.warn(`⚠️  Build ID 不一致: ${req.path} (${req.params.buildId} !== ${buildId})`)
+    res.set('Cache-Control', 'no-store')
+    res.status(409).json({ error: 'Build ID mismatch', buildId })
     return
   }
 
   try {
+    // 数据文件路径对应的页面路径：blog/123.json -> /blog/123，index.json -> /，en/index.json -> /en
+    const dataPath = req.params[0] || ''
+    const pagePath = getDataPagePath(dataPath.replace(/\.json$/, ''))
+
     // 匹配路由
-    const matchResult = matchRoute(req.path)
+    const matchResult = dataPath.endsWith('.json') ? matchRoute(pagePath) : null
 
     if (!matchResult) {
-      res.status(404).json({ error: 'Page not found' })
+      // 返回 404 页面的数据，客户端导航时渲染同一个错误页面
+      await sendError(res, 404, 'json')
       return
     }
 
-    let data: { pageProps: any; query: Record<string, string> }
+    let data: { pageProps: any; query: RouteParams } | { notFound: true } | PageRedirectData | null
 
     // 根据渲染类型返回数据
-    if (matchResult.route.renderType === 'ssg') {
-      // SSG: 读取预生成的 JSON 数据
-      data = await getSSGData(matchResult, path.join(projectRoot, '.next/static'))
+    if (dev) {
+      // 开发模式：每次请求都执行数据函数
+      data = await getDevPageData(matchResult, req, res)
+    } else if (matchResult.route.renderType === 'ssg') {
+      // SSG: 读取预生成的 JSON 数据（未预生成的路径按 fallback 处理，过期的数据在后台重新生成）
+      const ssgData = await getSSGData(matchResult, staticDir, projectRoot)
+
+      if (ssgData) {
+        res.set('Cache-Control', getSSGCacheControl(res, ssgData.revalidate))
+      }
+      data = ssgData
     } else {
       // SSR: 动态获取数据
       data = await getSSRData(matchResult, req, res)
     }
 
+    // 未预生成且 fallback: false 的路径，或 getStaticProps / getServerSideProps 返回 notFound
+    if (!data || 'notFound' in data) {
+      await sendError(res, 404, 'json')
+      return
+    }
+
+    // 返回 redirect 时只告诉客户端目标地址，由客户端路由跟随跳转
+    if ('redirect' in data) {
+      res.json({ redirect: data.redirect })
+      return
+    }
+
     // 返回 JSON 数据
     res.json({
       pageProps: data.pageProps,
       query: data.query || matchResult.params,
       page: matchResult.route.path,
+      locale: matchResult.locale,
     })
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
     console.error('❌ 获取页面数据失败:', message)
-    res.status(500).json({ error: 'Internal server error' })
+    await sendError(res, 500, 'json')
   }
 })
 
@@ -96,79 +520,207 @@ app.get('*', async (req: Request, res: Response, next: NextFunction): Promise<vo
 
 app.get('*', async (req: Request, res: Response): Promise<void> => {
   try {
+    // 首页按 Accept-Language 跳转到用户偏好的语言（其他页面的 URL 已经确定了语言，不处理）
+    const { i18n } = getManifest()
+
+    if (i18n && i18n.localeDetection !== false && req.path === '/') {
+      const locale = detectLocale(req.get('accept-language'))
+      res.vary('Accept-Language')
+
+      if (locale && locale !== i18n.defaultLocale) {
+        const search = req.url.slice(req.path.length)
+        const localeHome = normalizeTrailingSlash(`/${locale}`, getManifest().trailingSlash)
+        res.redirect(307, addBasePath(localeHome + search, basePath))
+        return
+      }
+    }
+
     // 匹配路由
     const matchResult = matchRoute(req.path)
 
     if (!matchResult) {
-      // 404 页面
-      res.status(404).send(`
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>404 - 页面未找到</title>
-          <link rel="stylesheet" href="/styles.css">
-        </head>
-        <body>
-          <div class="container">
-            <div class="card">
-              <h1>404</h1>
-              <p>页面未找到</p>
-              <a href="/" class="button">返回首页</a>
-            </div>
-          </div>
-        </body>
-        </html>
-      `)
+      // 404 页面（pages/404 预渲染的 HTML，或运行时渲染的错误页面）
+      await sendError(res, 404, 'html')
       return
     }
 
-    console.log(`📄 ${req.method} ${req.path} -> ${matchResult.route.renderType?.toUpperCase()}`)
+    console.log(
+      `📄 ${req.method} ${req.path} -> ${dev ? 'DEV' : matchResult.route.renderType?.toUpperCase()}`
+    )
 
-    let html: string
+    let result: SSGRenderResult | SSRRenderResult | null
 
     // 根据渲染类型选择渲染方式
-    if (matchResult.route.renderType === 'ssg') {
-      // SSG: 返回预渲染的 HTML
-      html = await renderSSG(matchResult, path.join(projectRoot, '.next/static'))
+    if (dev) {
+      // 开发模式：按需渲染所有页面，不缓存
+      result = await renderDevPage(matchResult, req, res, projectRoot)
+      res.set('Cache-Control', 'no-store, must-revalidate')
+    } else if (matchResult.route.renderType === 'ssg') {
+      // SSG: 返回预渲染的 HTML（未预生成的路径按 fallback 处理）
+      const ssgResult = await renderSSG(matchResult, staticDir, projectRoot)
 
-      // 设置缓存头（SSG 页面可以缓存）
-      res.set('Cache-Control', 'public, max-age=3600')
+      // 设置缓存头（SSG 页面和重定向可以缓存，fallback 外壳没有页面内容，不能缓存）
+      if (ssgResult) {
+        res.set(
+          'Cache-Control',
+          'isFallback' in ssgResult && ssgResult.isFallback
+            ? 'private, no-cache, no-store, must-revalidate'
+            : getSSGCacheControl(res, ssgResult.revalidate)
+        )
+      }
+      result = ssgResult
     } else {
       // SSR: 动态渲染
-      html = await renderSSR(matchResult, req, res, projectRoot)
+      result = await renderSSR(matchResult, req, res, projectRoot)
 
       // 设置缓存头（SSR 页面不缓存）
       res.set('Cache-Control', 'private, no-cache, no-store, must-revalidate')
     }
 
-    res.send(html)
+    // 未预生成且 fallback: false 的路径，或 getStaticProps / getServerSideProps 返回 notFound
+    if (!result || 'notFound' in result) {
+      await sendError(res, 404, 'html')
+      return
+    }
+
+    // getStaticProps / getServerSideProps 返回 redirect（307 临时 / 308 永久）
+    if ('redirect' in result) {
+      res.redirect(result.redirect.statusCode, addBasePath(result.redirect.destination, basePath))
+      return
+    }
+
+    res.send(result.html)
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
     console.error('❌ 渲染页面失败:', message)
 
-    // 错误页面
-    res.status(500).send(`
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <title>500 - 服务器错误</title>
-        <link rel="stylesheet" href="/styles.css">
-      </head>
-      <body>
-        <div class="container">
-          <div class="card">
-            <h1>500</h1>
-            <p>服务器错误</p>
-            <pre>${message}</pre>
-            <a href="/" class="button">返回首页</a>
-          </div>
-        </div>
-      </body>
-      </html>
-    `)
+    // 错误页面（不向用户暴露具体的错误信息）
+    await sendError(res, 500, 'html')
   }
 })
 
+/**
+ * 数据文件名对应的页面路径
+ *
+ * 首页的数据文件是 index.json，非默认语言的首页是 <locale>/index.json
+ *
+ * @param name - 数据文件路径（不含 .json）
+ * @returns 页面路径
+ */
+function getDataPagePath(name: string): string {
+  const { pathname, locale } = splitLocale(`/${name}`, getManifest().i18n?.locales ?? [])
+
+  if (pathname !== '/index') {
+    return `/${name}`
+  }
+
+  return locale ? `/${locale}` : '/'
+}
+
+/**
+ * 页面路径对应的数据文件名（getDataPagePath 的逆运算）
+ *
+ * @param pagePath - 页面路径（如 /、/en、/blog/1）
+ * @returns 数据文件路径，不含 .json（如 index、en/index、blog/1）
+ */
+function getDataFileName(pagePath: string): string {
+  const { pathname, locale } = splitLocale(pagePath, getManifest().i18n?.locales ?? [])
+  const page = pathname === '/' ? 'index' : pathname.slice(1).replace(/\/$/, '')
+
+  return locale ? `${locale}/${page}` : page
+}
+
+/**
+ * SSG 页面的缓存头
+ *
+ * ISR 页面允许共享缓存（CDN）缓存 revalidate 秒，
+ * 过期后可以先返回旧内容，同时回源触发重新生成
+ *
+ * 中间件等已经设置了 Cookie 的响应属于当前用户，不能进入共享缓存，否则会把 Cookie 发给其他用户
+ *
+ * @param res - 响应
+ * @param revalidate - getStaticProps 返回的 revalidate
+ * @returns Cache-Control 值
+ */
+function getSSGCacheControl(res: Response, revalidate: number | false): string {
+  if (res.hasHeader('Set-Cookie')) {
+    return 'private, no-store'
+  }
+
+  return revalidate === false
+    ? 'public, max-age=3600'
+    : `s-maxage=${revalidate}, stale-while-revalidate`
+}
+
+/**
+ * 请求路径是否对应构建输出或 public 目录中的文件（URL 规范化时跳过）
+ *
+ * @param pathname - 请求路径
+ * @returns 是否为实际存在的文件
+ */
+function isStaticFile(pathname: string): boolean {
+  let relativePath: string
+
+  try {
+    relativePath = decodeURIComponent(pathname)
+  } catch {
+    return false
+  }
+
+  return (dev ? [publicDir] : [staticDir, publicDir]).some((dir) => {
+    const filePath = path.join(dir, relativePath)
+    return (
+      filePath.startsWith(dir + path.sep) &&
+      fs.statSync(filePath, { throwIfNoEntry: false })?.isFile()
+    )
+  })
+}
+
+/**
+ * 校验 Authorization: Bearer <token> 请求头
+ * 使用 timingSafeEqual 比较，避免通过响应时间猜测 token
+ *
+ * @param header - Authorization 请求头
+ * @param token - 期望的 token
+ * @returns 是否有效
+ */
+function isValidToken(header: string | undefined, token: string): boolean {
+  const received = Buffer.from(header?.replace(/^Bearer\s+/i, '') || '')
+  const expected = Buffer.from(token)
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected)
+}
+
+// ==================== 错误页面 ====================
+
+/**
+ * 返回错误页面
+ *
+ * 渲染错误页面本身也可能失败（如 _error 组件有 bug），
+ * 这时退回纯文本响应，避免请求挂起
+ *
+ * @param res - Express 响应对象
+ * @param statusCode - HTTP 状态码
+ * @param format - html: 完整页面，json: 客户端导航数据
+ */
+async function sendError(
+  res: Response,
+  statusCode: number,
+  format: 'html' | 'json'
+): Promise<void> {
+  try {
+    if (format === 'json') {
+      res.status(statusCode).json(await getErrorData(statusCode, staticDir))
+    } else {
+      res.status(statusCode).send(await renderErrorPage(statusCode, staticDir, projectRoot))
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error('❌ 渲染错误页面失败:', message)
+    res.status(statusCode).type('text').send(`${statusCode} Error`)
+  }
+}
+
 // ==================== 启动服务器 ====================
 
 app.listen(PORT, () => {
@@ -0,0 +1,114 @@
+import fs from 'fs'
+import path from 'path'
+import { importPageModule } from './dev-server.js'
+import { getManifest } from './router.js'
+import { pathToRegex } from '../build/generate-routes.js'
+import { splitLocale } from '../client/i18n.js'
+import { removeTrailingSlash } from '../client/trailing-slash.js'
+import type {
+  MiddlewareConfig,
+  MiddlewareModule,
+  MiddlewareRequest,
+  MiddlewareResult,
+} from '../types/index.js'
+
+/**
+ * 中间件（项目根目录的 middleware.ts）
+ *
+ * 类似于 Next.js 的 Middleware，在匹配路由之前运行，用于登录校验、A/B 分流、按地区跳转等：
+ *
+ * ```ts
+ * export default function middleware(request: MiddlewareRequest): MiddlewareResult | void {
+ *   if (!request.cookies.token) {
+ *     return { redirect: { destination: '/login', permanent: false } }
+ *   }
+ * }
+ *
+ * export const config: MiddlewareConfig = { matcher: '/dashboard/:path*' }
+ * ```
+ *
+ * - 不返回值：继续处理请求
+ * - response：直接响应，不再渲染页面
+ * - redirect：重定向（307 / 308）
+ * - rewrite：改为处理另一个路径，浏览器地址不变
+ * - requestHeaders / headers / cookies：修改请求头、响应头，设置 Cookie（可以和上面任意一种一起返回）
+ *
+ * 客户端导航的数据请求（/_next/data/...）按它要加载的页面路径运行中间件，结果与直接访问页面一致
+ */
+
+/**
+ * 中间件文件名（项目根目录）
+ */
+const MIDDLEWARE_FILES = ['middleware.ts', 'middleware.js']
+
+/**
+ * 查找中间件文件
+ *
+ * @param projectRoot - 项目根目录
+ * @returns 文件的绝对路径，没有中间件时返回 null
+ */
+export function findMiddleware(projectRoot: string): string | null {
+  const file = MIDDLEWARE_FILES.map((name) => path.join(projectRoot, name)).find((filePath) =>
+    fs.existsSync(filePath)
+  )
+
+  return file ?? null
+}
+
+/**
+ * 运行中间件
+ *
+ * 开发模式下每次导入最新的模块，修改 middleware.ts 后不需要重启
+ *
+ * @param filePath - 中间件文件路径
+ * @param request - 请求信息
+ * @returns 中间件的返回值；路径不在 matcher 中或没有返回值时为 null
+ * @throws 中间件没有默认导出函数，或执行时抛出错误
+ */
+export async function runMiddleware(
+  filePath: string,
+  request: MiddlewareRequest
+): Promise<MiddlewareResult | null> {
+  const module = await importPageModule<MiddlewareModule>(filePath)
+
+  if (typeof module.default !== 'function') {
+    throw new Error(`${path.basename(filePath)} 没有默认导出中间件函数`)
+  }
+
+  if (!matchesMatcher(module.config, request.pathname)) {
+    return null
+  }
+
+  return (await module.default(request)) || null
+}
+
+/**
+ * 检查路径是否在 matcher 中
+ *
+ * 启用 i18n 时，/dashboard 同样匹配 /en/dashboard
+ *
+ * @param config - 中间件配置
+ * @param pathname - 请求路径
+ * @returns 是否运行中间件
+ */
+function matchesMatcher(config: MiddlewareConfig | undefined, pathname: string): boolean {
+  if (!config?.matcher) {
+    return true
+  }
+
+  // 忽略末尾的 /（trailingSlash: true 时请求路径为 /dashboard/）
+  const normalized = removeTrailingSlash(pathname)
+  const paths = [normalized]
+  const { locale, pathname: withoutLocale } = splitLocale(
+    normalized,
+    getManifest().i18n?.locales ?? []
+  )
+
+  if (locale) {
+    paths.push(withoutLocale)
+  }
+
+  return [config.matcher]
+    .flat()
+    .some((matcher) => paths.some((item) => new RegExp(pathToRegex(matcher)).test(item)))
+}
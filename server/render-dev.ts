@@ -0,0 +1,165 @@
+import { importPageModule } from './dev-server.js'
+import { getManifest } from './router.js'
+import { getLocaleInfo } from '../client/i18n.js'
+import { renderSSR, getSSRData, renderPageToHTML, toPageRedirectData } from './render-ssr.js'
+import type { Request, Response } from 'express'
+import type {
+  MatchResult,
+  PageModule,
+  PageRedirectData,
+  RouteParams,
+  SSRRenderResult,
+} from '../types/index.js'
+
+/**
+ * 开发模式渲染器
+ *
+ * 开发模式下没有构建产物，所有页面都在请求时渲染：
+ * - 生产环境走 SSR 的页面（getServerSideProps、没有 getStaticPaths 的动态路由）照常走 SSR
+ * - 其他页面在每次请求时执行 getStaticProps，效果和重新构建后的静态页面一致
+ *
+ * getStaticPaths 的 fallback: false 仍然生效，未列出的路径返回 404
+ * fallback: true / 'blocking' 的路径直接渲染（不返回 fallback 外壳），revalidate 被忽略
+ */
+
+/**
+ * 页面数据、notFound 或重定向
+ */
+type DevPageData = { pageProps: any; query: RouteParams } | { notFound: true } | PageRedirectData
+
+/**
+ * 渲染页面
+ *
+ * @param matchResult - 路由匹配结果
+ * @param req - Express 请求对象
+ * @param res - Express 响应对象
+ * @param projectRoot - 项目根目录
+ * @returns HTML 字符串，或 notFound / redirect
+ */
+export async function renderDevPage(
+  matchResult: MatchResult,
+  req: Request,
+  res: Response,
+  projectRoot: string
+): Promise<SSRRenderResult> {
+  const pageModule = await importPageModule<PageModule>(matchResult.route.componentPath)
+
+  if (isServerRendered(matchResult, pageModule)) {
+    return renderSSR(matchResult, req, res, projectRoot)
+  }
+
+  const data = await getStaticData(matchResult, pageModule)
+
+  if ('notFound' in data || 'redirect' in data) {
+    return data
+  }
+
+  const html = await renderPageToHTML({
+    PageComponent: pageModule.default,
+    pageProps: data.pageProps,
+    page: matchResult.route.path,
+    params: matchResult.params,
+    locale: matchResult.locale,
+    projectRoot,
+  })
+
+  return { html }
+}
+
+/**
+ * 获取页面的 JSON 数据（用于客户端导航）
+ *
+ * @param matchResult - 路由匹配结果
+ * @param req - Express 请求对象
+ * @param res - Express 响应对象
+ * @returns 页面数据，或 notFound / redirect
+ */
+export async function getDevPageData(
+  matchResult: MatchResult,
+  req: Request,
+  res: Response
+): Promise<DevPageData> {
+  const pageModule = await importPageModule<PageModule>(matchResult.route.componentPath)
+
+  if (isServerRendered(matchResult, pageModule)) {
+    return getSSRData(matchResult, req, res)
+  }
+
+  return getStaticData(matchResult, pageModule)
+}
+
+/**
+ * 判断页面在生产环境是否为 SSR（和构建时 renderStaticPage 的规则一致）
+ *
+ * @param matchResult - 路由匹配结果
+ * @param pageModule - 页面模块
+ * @returns 是否走 SSR
+ */
+function isServerRendered(matchResult: MatchResult, pageModule: PageModule): boolean {
+  return (
+    Boolean(pageModule.getServerSideProps) ||
+    (matchResult.route.isDynamic && !pageModule.getStaticPaths)
+  )
+}
+
+/**
+ * 在请求时执行 getStaticPaths / getStaticProps
+ *
+ * @param matchResult - 路由匹配结果
+ * @param pageModule - 页面模块
+ * @returns 页面数据，或 notFound / redirect
+ */
+async function getStaticData(
+  matchResult: MatchResult,
+  pageModule: PageModule
+): Promise<DevPageData> {
+  const { route, params, locale } = matchResult
+  const { getStaticPaths, getStaticProps } = pageModule
+  const localeInfo = getLocaleInfo(getManifest().i18n, locale)
+
+  // fallback: false 时只有 getStaticPaths 列出的路径存在（带 locale 的路径只存在于这种语言）
+  if (route.isDynamic && getStaticPaths) {
+    const { paths, fallback = false } = await getStaticPaths({
+      locales: localeInfo.locales,
+      defaultLocale: localeInfo.defaultLocale,
+    })
+    const exists = paths.some(
+      (p) => (!p.locale || p.locale === locale) && isSameParams(p.params, params, route.paramNames)
+    )
+
+    if (!fallback && !exists) {
+      return { notFound: true }
+    }
+  }
+
+  if (!getStaticProps) {
+    return { pageProps: {}, query: params }
+  }
+
+  const result = await getStaticProps({ params, ...localeInfo })
+
+  if ('notFound' in result) {
+    return { notFound: true }
+  }
+
+  if ('redirect' in result) {
+    return toPageRedirectData(result.redirect)
+  }
+
+  return { pageProps: result.props || {}, query: params }
+}
+
+/**
+ * 比较 getStaticPaths 返回的参数和 URL 中的参数
+ *
+ * @param a - 参数
+ * @param b - 参数
+ * @param paramNames - 路由的参数名
+ * @returns 是否指向同一个路径（catch-all 参数按 / 拼接后比较）
+ */
+function isSameParams(a: RouteParams, b: RouteParams, paramNames: string[]): boolean {
+  const toPath = (value: string | string[] | undefined): string =>
+    Array.isArray(value) ? value.join('/') : value || ''
+
+  return paramNames.every((name) => toPath(a[name]) === toPath(b[name]))
+}
@@ -0,0 +1,148 @@
+import fs from 'fs'
+import path from 'path'
+import { getManifest, getSpecialPages, loadSpecialComponent } from './router.js'
+import { renderPageToHTML } from './render-ssr.js'
+import { getViteServer, importPageModule } from './dev-server.js'
+import DefaultError from '../client/error.js'
+import { getLocaleInfo } from '../client/i18n.js'
+import type { PageModule, PageData, SpecialPages } from '../types/index.js'
+
+/**
+ * 错误页面渲染器
+ *
+ * 负责在路由未匹配（404）或渲染出错（500）时返回错误页面
+ *
+ * 查找顺序：
+ * 1. 构建时预渲染的 /404.html、/500.html（来自 pages/404、pages/500）
+ * 2. pages/_error，运行时渲染，接收 statusCode
+ * 3. 框架的默认错误组件
+ *
+ * 开发模式没有预渲染，pages/404、pages/500 在请求时渲染
+ */
+
+/**
+ * 预渲染的错误页面对应的状态码
+ */
+const PRERENDERED_ERROR_PAGES: Record<number, string> = {
+  404: '/404',
+  500: '/500',
+}
+
+/**
+ * 错误页面对应的特殊文件（开发模式运行时渲染）
+ */
+const ERROR_PAGE_FILES: Record<number, keyof SpecialPages> = {
+  404: 'notFound',
+  500: 'serverError',
+}
+
+/**
+ * 渲染错误页面
+ *
+ * @param statusCode - HTTP 状态码
+ * @param staticDir - 静态文件目录
+ * @param projectRoot - 项目根目录
+ * @returns HTML 字符串
+ */
+export async function renderErrorPage(
+  statusCode: number,
+  staticDir: string,
+  projectRoot: string
+): Promise<string> {
+  // 1. 优先使用构建时预渲染的错误页面
+  const prerenderedPath = getPrerenderedPath(statusCode, staticDir)
+
+  if (prerenderedPath) {
+    return fs.readFileSync(`${prerenderedPath}.html`, 'utf-8')
+  }
+
+  // 2. 运行时渲染错误页面
+  const { PageComponent, pageProps, page } = await resolveErrorPage(statusCode)
+
+  return renderPageToHTML({
+    PageComponent,
+    pageProps,
+    page,
+    params: {},
+    projectRoot,
+  })
+}
+
+/**
+ * 获取错误页面的 JSON 数据（用于客户端导航）
+ *
+ * 客户端收到后会像普通页面一样加载 page 对应的组件并渲染
+ *
+ * @param statusCode - HTTP 状态码
+ * @param staticDir - 静态文件目录
+ * @returns 页面数据
+ */
+export async function getErrorData(statusCode: number, staticDir: string): Promise<PageData> {
+  const prerenderedPath = getPrerenderedPath(statusCode, staticDir)
+
+  if (prerenderedPath) {
+    const { pageProps } = JSON.parse(fs.readFileSync(`${prerenderedPath}.json`, 'utf-8'))
+    return { pageProps, query: {}, page: PRERENDERED_ERROR_PAGES[statusCode]! }
+  }
+
+  const { pageProps, page } = await resolveErrorPage(statusCode)
+  return { pageProps, query: {}, page }
+}
+
+/**
+ * 确定运行时渲染的错误页面
+ *
+ * 开发模式下 pages/404、pages/500 没有预渲染，在这里执行 getStaticProps；
+ * 其他情况使用 _error（或默认错误组件），接收 statusCode
+ *
+ * @param statusCode - HTTP 状态码
+ * @returns 页面组件、props 和页面名称
+ */
+async function resolveErrorPage(
+  statusCode: number
+): Promise<{ PageComponent: PageModule['default']; pageProps: any; page: string }> {
+  const fileKey = ERROR_PAGE_FILES[statusCode]
+  const filePath = getViteServer() && fileKey ? getSpecialPages()[fileKey] : null
+
+  if (filePath) {
+    const pageModule = await importPageModule<PageModule>(filePath)
+    const result = pageModule.getStaticProps
+      ? await pageModule.getStaticProps({ params: {}, ...getLocaleInfo(getManifest().i18n) })
+      : { props: {} }
+
+    return {
+      PageComponent: pageModule.default,
+      pageProps: 'props' in result ? result.props : {},
+      page: PRERENDERED_ERROR_PAGES[statusCode]!,
+    }
+  }
+
+  return { PageComponent: await loadErrorComponent(), pageProps: { statusCode }, page: '/_error' }
+}
+
+/**
+ * 获取预渲染错误页面的文件路径（不含扩展名）
+ *
+ * @param statusCode - HTTP 状态码
+ * @param staticDir - 静态文件目录
+ * @returns 文件路径，没有预渲染（或开发模式）时为 null
+ */
+function getPrerenderedPath(statusCode: number, staticDir: string): string | null {
+  const page = PRERENDERED_ERROR_PAGES[statusCode]
+
+  // 开发模式不使用 .next 中可能过期的构建产物
+  if (!page || getViteServer()) {
+    return null
+  }
+
+  const filePath = path.join(staticDir, page)
+  return fs.existsSync(`${filePath}.html`) ? filePath : null
+}
+
+/**
+ * 加载 _error 组件，没有提供时使用默认错误组件
+ * @returns 错误页面组件
+ */
+async function loadErrorComponent(): Promise<PageModule['default']> {
+  return loadSpecialComponent<PageModule>(getSpecialPages().error, DefaultError)
+}
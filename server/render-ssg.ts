@@ -1,82 +1,379 @@
 import fs from 'fs'
 import path from 'path'
-import type { MatchResult } from '../types/index.js'
+import { getManifest, matchRoute } from './router.js'
+import { splitLocale } from '../client/i18n.js'
+import { renderFallbackShell } from './render-ssr.js'
+import { getHtmlPath, renderStaticPath } from '../build/render-static.js'
+import type {
+  MatchResult,
+  RouteParams,
+  SSGRenderResult,
+  StaticPageData,
+  StaticRedirectData,
+} from '../types/index.js'
 
 /**
  * SSG 页面服务器
  *
  * 负责返回构建时预渲染的静态 HTML 文件
  * 这是最快的渲染方式，因为 HTML 已经提前生成好了
+ *
+ * 对于构建时没有预生成的动态路径，按 getStaticPaths 的 fallback 处理：
+ * - false: 返回 null（由调用方返回 404）
+ * - 'blocking': 本次请求等待生成完成，再返回生成的页面
+ * - true: 立即返回 fallback 外壳，在后台生成页面
+ *
+ * ISR（getStaticProps 返回 revalidate）：
+ * 页面生成超过 revalidate 秒后视为过期，请求仍然立即拿到旧页面（stale），
+ * 同时在后台重新生成，之后的请求读到新页面（stale-while-revalidate）
+ *
+ * 按需重新验证（revalidatePath）：
+ * CMS 发布内容后通过 API 路由的 res.revalidate() 或内部接口立即重新生成指定页面
  */
 
+/**
+ * 正在生成中的页面（key: 输出文件路径）
+ * 同一路径的并发请求共享同一次生成（fallback 和 ISR 都是），避免重复调用 getStaticProps 和并发写文件
+ */
+const pendingGenerations = new Map<string, Promise<void>>()
+
 /**
  * 渲染 SSG 页面
  *
  * @param matchResult - 路由匹配结果
  * @param staticDir - 静态文件目录
- * @returns HTML 字符串
+ * @param projectRoot - 项目根目录
+ * @returns HTML、是否为 fallback 外壳和 revalidate，或重定向信息，
+ *          页面不存在（fallback: false 或 getStaticProps 返回 notFound）时返回 null
  */
 export async function renderSSG(
   matchResult: MatchResult,
-  staticDir: string = '.next/static'
-): Promise<string> {
-  const { route, params } = matchResult
-
-  // 根据路由和参数构建文件路径
-  const filePath = getStaticFilePath(route.path, params)
-  const fullPath = path.join(staticDir, `${filePath}.html`)
-
-  try {
-    // 读取预渲染的 HTML 文件
-    const html = fs.readFileSync(fullPath, 'utf-8')
-    return html
-  } catch (error) {
-    // 文件不存在或读取失败
-    console.error(`❌ 读取静态文件失败: ${fullPath}`)
-    throw new Error('Static file not found')
+  staticDir: string = '.next/static',
+  projectRoot: string
+): Promise<SSGRenderResult | StaticRedirectData | null> {
+  const { route, params, locale } = matchResult
+
+  // 根据路由、参数和语言构建文件路径
+  const filePath = resolveStaticFilePath(route.path, params, staticDir, locale)
+
+  if (!filePath) {
+    return null
+  }
+
+  // 1. 读取预渲染的页面（过期时在后台重新生成，本次仍返回旧页面）
+  // .json 总是和页面一起生成，重定向时只有 .json
+  if (fs.existsSync(`${filePath}.json`)) {
+    return readRenderResult(
+      filePath,
+      revalidateIfStale(matchResult, filePath, staticDir, projectRoot)
+    )
+  }
+
+  // 2. 没有预渲染，按 fallback 模式处理
+  switch (route.fallback) {
+    case 'blocking':
+      await generateStaticPage(matchResult, filePath, staticDir, projectRoot)
+
+      // getStaticProps 返回 notFound 时不会生成文件
+      return fs.existsSync(`${filePath}.json`)
+        ? readRenderResult(filePath, readPageData(filePath))
+        : null
+
+    case true:
+      // 后台生成，之后的请求直接读取静态文件
+      generateStaticPage(matchResult, filePath, staticDir, projectRoot).catch(() => {
+        // 错误已在 generateStaticPage 中记录，客户端请求数据时会再次触发生成
+      })
+      return {
+        html: await renderFallbackShell(route.path, params, projectRoot, locale),
+        isFallback: true,
+        revalidate: false,
+      }
+
+    default:
+      return null
   }
 }
 
 /**
  * 获取 SSG 页面的 JSON 数据（用于客户端导航）
  *
+ * fallback: true 和 'blocking' 都会等待页面生成完成后返回数据
+ * 数据过期（ISR）时和 HTML 一样先返回旧数据，在后台重新生成
+ *
  * @param matchResult - 路由匹配结果
  * @param staticDir - 静态文件目录
- * @returns 页面数据
+ * @param projectRoot - 项目根目录
+ * @returns 页面数据或重定向信息，页面不存在（fallback: false 或 notFound）时返回 null
  */
 export async function getSSGData(
   matchResult: MatchResult,
-  staticDir: string = '.next/static'
-): Promise<{ pageProps: any; query: Record<string, string> }> {
-  const { route, params } = matchResult
+  staticDir: string = '.next/static',
+  projectRoot: string
+): Promise<StaticPageData | StaticRedirectData | null> {
+  const { route, params, locale } = matchResult
+
+  const filePath = resolveStaticFilePath(route.path, params, staticDir, locale)
+
+  if (!filePath) {
+    return null
+  }
+
+  const fullPath = `${filePath}.json`
+
+  if (!fs.existsSync(fullPath)) {
+    if (!route.fallback) {
+      return null
+    }
+
+    await generateStaticPage(matchResult, filePath, staticDir, projectRoot)
+    return fs.existsSync(fullPath) ? readPageData(filePath) : null
+  }
+
+  return revalidateIfStale(matchResult, filePath, staticDir, projectRoot)
+}
+
+/**
+ * 按需重新生成指定路径的静态页面（On-demand Revalidation）
+ *
+ * 和构建时走同一套渲染逻辑（重新执行 getStaticProps），覆盖 renderSSG / getSSGData 读取的 .html / .json
+ * 路径无法匹配到 SSG 页面时抛出带 status 的错误：
+ * - 404: 没有匹配的路由，或者是 fallback: false 且构建时没有生成的路径
+ * - 400: 匹配到的是 SSR 页面或 API 路由，没有静态文件可以重新生成
+ *
+ * 启用 i18n 时，不带语言前缀的路径重新生成所有语言的页面（/about -> /about、/en/about），
+ * 带前缀的路径（/en/about）只重新生成这一种语言
+ *
+ * @param urlPath - 页面路径（如 /about、/en/blog/123）
+ * @param staticDir - 静态文件目录
+ * @param projectRoot - 项目根目录
+ */
+export async function revalidatePath(
+  urlPath: string,
+  staticDir: string,
+  projectRoot: string
+): Promise<void> {
+  if (!urlPath.startsWith('/')) {
+    throw createRevalidateError(400, `无效的路径 "${urlPath}"，必须以 / 开头`)
+  }
+
+  const matchResult = matchRoute(urlPath)
+
+  if (!matchResult) {
+    throw createRevalidateError(404, `路径 ${urlPath} 没有匹配的页面`)
+  }
+
+  const { route } = matchResult
+
+  if (route.renderType !== 'ssg') {
+    throw createRevalidateError(
+      400,
+      `路径 ${urlPath} 匹配到 ${route.path}，它不是静态生成（SSG）页面，不能重新验证`
+    )
+  }
+
+  const { i18n } = getManifest()
+  const locales =
+    i18n && !splitLocale(urlPath, i18n.locales).locale ? i18n.locales : [matchResult.locale]
+
+  // fallback: false 的页面只能是构建时生成过的路径
+  const targets = locales.flatMap((locale) => {
+    const filePath = resolveStaticFilePath(route.path, matchResult.params, staticDir, locale)
+    return filePath && (route.fallback || fs.existsSync(`${filePath}.json`))
+      ? [{ locale, filePath }]
+      : []
+  })
+
+  if (targets.length === 0) {
+    throw createRevalidateError(404, `路径 ${urlPath} 不在 ${route.path} 的 getStaticPaths 中`)
+  }
+
+  for (const { locale, filePath } of targets) {
+    // 正在进行的生成可能是在内容更新之前开始的，等它结束后再重新生成一次
+    await pendingGenerations.get(filePath)?.catch(() => {})
+
+    await generateStaticPage(
+      { ...matchResult, locale },
+      filePath,
+      staticDir,
+      projectRoot,
+      'on-demand'
+    )
+  }
+}
+
+/**
+ * 创建带 HTTP 状态码的重新验证错误
+ *
+ * @param status - HTTP 状态码
+ * @param message - 错误信息
+ * @returns 错误对象
+ */
+function createRevalidateError(status: number, message: string): Error & { status: number } {
+  return Object.assign(new Error(message), { status })
+}
+
+/**
+ * 读取页面数据，过期时在后台重新生成（ISR）
+ *
+ * 重新生成失败时保留旧页面，下一次请求会再次尝试
+ *
+ * @param matchResult - 路由匹配结果
+ * @param filePath - 输出文件路径（不含扩展名）
+ * @param staticDir - 静态文件目录
+ * @param projectRoot - 项目根目录
+ * @returns 当前（可能已过期的）页面数据
+ */
+function revalidateIfStale(
+  matchResult: MatchResult,
+  filePath: string,
+  staticDir: string,
+  projectRoot: string
+): StaticPageData | StaticRedirectData {
+  const data = readPageData(filePath)
 
-  const filePath = getStaticFilePath(route.path, params)
-  const fullPath = path.join(staticDir, `${filePath}.json`)
+  if (data.revalidate !== false && Date.now() - data.generatedAt >= data.revalidate * 1000) {
+    generateStaticPage(matchResult, filePath, staticDir, projectRoot, 'revalidate').catch(() => {
+      // 错误已在 generateStaticPage 中记录，继续返回旧页面
+    })
+  }
 
-  try {
-    const content = fs.readFileSync(fullPath, 'utf-8')
-    return JSON.parse(content)
-  } catch (error) {
-    console.error(`❌ 读取静态数据失败: ${fullPath}`)
-    throw new Error('Static data not found')
+  return data
+}
+
+/**
+ * 根据页面数据生成渲染结果
+ *
+ * @param filePath - 输出文件路径（不含扩展名）
+ * @param data - 页面数据
+ * @returns 重定向信息，或预渲染的 HTML
+ */
+function readRenderResult(
+  filePath: string,
+  data: StaticPageData | StaticRedirectData
+): SSGRenderResult | StaticRedirectData {
+  if ('redirect' in data) {
+    return data
+  }
+
+  return {
+    html: fs.readFileSync(getHtmlPath(filePath, getManifest().trailingSlash), 'utf-8'),
+    isFallback: false,
+    revalidate: data.revalidate,
   }
 }
 
+/**
+ * 读取页面的 JSON 数据文件
+ *
+ * @param filePath - 输出文件路径（不含扩展名）
+ * @returns 页面数据或重定向信息（缺少 ISR 字段的旧数据文件视为永不过期）
+ */
+function readPageData(filePath: string): StaticPageData | StaticRedirectData {
+  const data = JSON.parse(fs.readFileSync(`${filePath}.json`, 'utf-8'))
+
+  return {
+    ...data,
+    revalidate: data.revalidate ?? false,
+    generatedAt: data.generatedAt ?? 0,
+  }
+}
+
+/**
+ * 按需生成静态页面（同一路径只会同时生成一次）
+ *
+ * @param matchResult - 路由匹配结果
+ * @param filePath - 输出文件路径（不含扩展名）
+ * @param staticDir - 静态文件目录
+ * @param projectRoot - 项目根目录
+ * @param reason - fallback: 生成未预渲染的路径，revalidate: 重新生成过期页面，on-demand: 按需重新验证
+ */
+function generateStaticPage(
+  matchResult: MatchResult,
+  filePath: string,
+  staticDir: string,
+  projectRoot: string,
+  reason: 'fallback' | 'revalidate' | 'on-demand' = 'fallback'
+): Promise<void> {
+  const pending = pendingGenerations.get(filePath)
+
+  if (pending) {
+    return pending
+  }
+
+  const relativePath = path.relative(staticDir, filePath)
+  const messages = {
+    fallback: `⚙️  按需生成静态页面: ${relativePath}`,
+    revalidate: `♻️  页面已过期，后台重新生成: ${relativePath}`,
+    'on-demand': `🔄 按需重新验证页面: ${relativePath}`,
+  }
+  console.log(messages[reason])
+
+  const promise = renderStaticPath(
+    matchResult.route,
+    matchResult.params,
+    staticDir,
+    getManifest(),
+    projectRoot,
+    matchResult.locale
+  )
+    .then(() => undefined)
+    .catch((error) => {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`❌ 按需生成静态页面失败: ${filePath}`, message)
+      throw error
+    })
+    .finally(() => {
+      pendingGenerations.delete(filePath)
+    })
+
+  pendingGenerations.set(filePath, promise)
+  return promise
+}
+
+/**
+ * 解析静态文件的完整路径（不含扩展名）
+ *
+ * 参数来自 URL，catch-all 参数可能包含 ..，
+ * 解析后不在静态文件目录内的路径一律视为不存在
+ *
+ * @param routePath - 路由路径
+ * @param params - 参数对象
+ * @param staticDir - 静态文件目录
+ * @param locale - 语言（启用 i18n 时页面在语言目录下）
+ * @returns 完整路径，越界时返回 null
+ */
+function resolveStaticFilePath(
+  routePath: string,
+  params: RouteParams,
+  staticDir: string,
+  locale?: string
+): string | null {
+  const root = path.resolve(staticDir)
+  const fullPath = path.join(root, locale ?? '', getStaticFilePath(routePath, params))
+
+  return fullPath.startsWith(root + path.sep) ? fullPath : null
+}
+
 /**
  * 根据路由路径和参数生成文件路径
  *
- * @param routePath - 路由路径（如 /blog/:id）
- * @param params - 参数对象（如 { id: '123' }）
- * @returns 文件路径（如 /blog/123）
+ * @param routePath - 路由路径（如 /blog/:id、/docs/:slug+）
+ * @param params - 参数对象（如 { id: '123' }、{ slug: ['a', 'b'] }）
+ * @returns 文件路径（如 /blog/123、/docs/a/b）
  */
-function getStaticFilePath(routePath: string, params: Record<string, string>): string {
+function getStaticFilePath(routePath: string, params: RouteParams): string {
   let filePath = routePath
 
-  // 替换动态参数
+  // 替换动态参数（catch-all 参数的数组用 / 拼接）
   for (const [key, value] of Object.entries(params)) {
-    filePath = filePath.replace(`:${key}`, value)
+    const segment = Array.isArray(value) ? value.join('/') : value
+    filePath = filePath.replace(new RegExp(`:${key}[+*]?(?=/|$)`), segment)
   }
 
+  // 空的可选 catch-all 会留下末尾的 /（/docs/ -> /docs）
+  filePath = filePath.replace(/\/+$/, '') || '/'
+
   // 根路径特殊处理
   if (filePath === '/') {
     return '/index'
@@ -1,15 +1,35 @@
-import React from 'react'
+import { ComponentType, ReactElement } from 'react'
 import ReactDOMServer from 'react-dom/server'
-import path from 'path'
-import { getClientManifest } from './router.js'
+import { getClientManifest, getManifest, getSpecialPages, loadSpecialComponent } from './router.js'
+import { getViteServer, importPageModule } from './dev-server.js'
+import DefaultApp from '../client/app.js'
+import DefaultDocument, { DocumentContext } from '../client/document.js'
+import { HeadManagerContext, uniqueHeadElements } from '../client/head.js'
+import { LocaleContext, getLocaleInfo } from '../client/i18n.js'
+import { BasePathContext } from '../client/base-path.js'
+import { TrailingSlashContext } from '../client/trailing-slash.js'
 import type { Request, Response } from 'express'
-import type { MatchResult, PageModule, NextData } from '../types/index.js'
+import type {
+  MatchResult,
+  PageModule,
+  NextData,
+  RouteParams,
+  AppModule,
+  DocumentModule,
+  Redirect,
+  PageRedirectData,
+  SSRRenderResult,
+  GenerateHTMLOptions,
+} from '../types/index.js'
 
 /**
  * SSR 渲染器
  *
  * 负责在运行时动态渲染页面
  * 每次请求都会执行 getServerSideProps 并重新渲染
+ *
+ * getServerSideProps 返回 notFound / redirect 时不渲染页面，
+ * 由调用方返回 404 页面或 307 / 308 重定向
  */
 
 /**
@@ -19,21 +39,19 @@ import type { MatchResult, PageModule, NextData } from '../types/index.js'
  * @param req - Express 请求对象
  * @param res - Express 响应对象
  * @param projectRoot - 项目根目录
- * @returns HTML 字符串
+ * @returns HTML 字符串，或 notFound / redirect
  */
 export async function renderSSR(
   matchResult: MatchResult,
   req: Request,
   res: Response,
   projectRoot: string
-): Promise<string> {
-  const { route, params } = matchResult
+): Promise<SSRRenderResult> {
+  const { route, params, locale } = matchResult
 
   try {
-    // 1. 动态加载页面组件
-    // 使用 file:// 协议和绝对路径来支持 ESM
-    const componentPath = path.resolve(route.componentPath)
-    const pageModule = (await import(`file://${componentPath}`)) as PageModule
+    // 1. 动态加载页面组件（开发模式下每次拿到最新的模块）
+    const pageModule = await importPageModule<PageModule>(route.componentPath)
 
     const PageComponent = pageModule.default
     const { getServerSideProps } = pageModule
@@ -47,25 +65,33 @@ export async function renderSSR(
         req, // 请求对象
         res, // 响应对象
         query: req.query as Record<string, string>, // 查询参数
+        ...getLocaleInfo(getManifest().i18n, locale), // 当前语言（启用 i18n 时）
       }
 
       const result = await getServerSideProps(context)
+
+      if ('notFound' in result) {
+        return { notFound: true }
+      }
+
+      if ('redirect' in result) {
+        return toPageRedirectData(result.redirect)
+      }
+
       pageProps = result.props || {}
     }
 
-    // 3. 使用 ReactDOMServer 渲染组件为 HTML 字符串
-    const appHtml = ReactDOMServer.renderToString(React.createElement(PageComponent, pageProps))
-
-    // 4. 生成完整的 HTML 文档
-    const html = generateHTMLDocument({
-      appHtml,
+    // 3. 渲染页面组件并生成完整的 HTML 文档
+    const html = await renderPageToHTML({
+      PageComponent,
       pageProps,
-      route: route.path,
+      page: route.path,
       params,
+      locale,
       projectRoot,
     })
 
-    return html
+    return { html }
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error)
     console.error(`❌ SSR 渲染失败:`, message)
@@ -73,24 +99,122 @@ export async function renderSSR(
   }
 }
 
+/**
+ * 在运行时把页面组件渲染为完整的 HTML 文档
+ *
+ * 页面由 App 组件包裹，HTML 外壳由 Document 组件渲染
+ * SSR 页面和运行时渲染的错误页面共用这个函数
+ *
+ * @param options - 渲染选项
+ * @returns HTML 字符串
+ */
+export async function renderPageToHTML({
+  PageComponent,
+  pageProps,
+  page,
+  params,
+  locale,
+  projectRoot,
+}: {
+  PageComponent: ComponentType<any>
+  pageProps: any
+  page: string
+  params: RouteParams
+  locale?: string
+  projectRoot: string
+}): Promise<string> {
+  const { app, document } = getSpecialPages()
+
+  // 1. 使用 ReactDOMServer 渲染组件为 HTML 字符串（页面由 App 组件包裹）
+  // 渲染过程中 <Head> 的 children 收集到 head 中，Link 从 context 读取当前语言、basePath 和 trailingSlash
+  const App = await loadSpecialComponent<AppModule>(app, DefaultApp)
+  const head: ReactElement[] = []
+  const appHtml = ReactDOMServer.renderToString(
+    <HeadManagerContext.Provider value={head}>
+      <LocaleContext.Provider value={getLocaleInfo(getManifest().i18n, locale)}>
+        <BasePathContext.Provider value={getManifest().basePath}>
+          <TrailingSlashContext.Provider value={getManifest().trailingSlash}>
+            <App Component={PageComponent} pageProps={pageProps} />
+          </TrailingSlashContext.Provider>
+        </BasePathContext.Provider>
+      </LocaleContext.Provider>
+    </HeadManagerContext.Provider>
+  )
+
+  // 2. 生成完整的 HTML 文档（HTML 外壳由 Document 组件渲染）
+  const Document = await loadSpecialComponent<DocumentModule>(document, DefaultDocument)
+  const html = generateHTMLDocument({
+    Document,
+    appHtml,
+    head,
+    pageProps,
+    route: page,
+    params,
+    locale,
+    manifest: getManifest(),
+    projectRoot,
+    gssp: true,
+  })
+
+  // 3. 开发模式：由 Vite 注入 HMR 客户端和 React Fast Refresh 的运行时
+  const vite = getViteServer()
+  return vite ? vite.transformIndexHtml(page, html) : html
+}
+
+/**
+ * 渲染 fallback 外壳（getStaticPaths 返回 fallback: true 时使用）
+ *
+ * 外壳只有 HTML 文档结构，#__next 为空，__NEXT_DATA__ 标记 isFallback
+ * 客户端会以 router.isFallback = true 渲染页面，再请求页面数据完成渲染
+ *
+ * @param page - 路由路径（如 /product/:id）
+ * @param params - 路由参数
+ * @param projectRoot - 项目根目录
+ * @param locale - 语言（启用 i18n 时）
+ * @returns HTML 字符串
+ */
+export async function renderFallbackShell(
+  page: string,
+  params: RouteParams,
+  projectRoot: string,
+  locale?: string
+): Promise<string> {
+  const Document = await loadSpecialComponent<DocumentModule>(
+    getSpecialPages().document,
+    DefaultDocument
+  )
+
+  return generateHTMLDocument({
+    Document,
+    appHtml: '',
+    head: [],
+    pageProps: {},
+    route: page,
+    params,
+    locale,
+    manifest: getManifest(),
+    projectRoot,
+    isFallback: true,
+  })
+}
+
 /**
  * 获取 SSR 页面的 JSON 数据（用于客户端导航）
  *
  * @param matchResult - 路由匹配结果
  * @param req - Express 请求对象
  * @param res - Express 响应对象
- * @returns 页面数据
+ * @returns 页面数据，或 notFound / redirect
  */
 export async function getSSRData(
   matchResult: MatchResult,
   req: Request,
   res: Response
-): Promise<{ pageProps: any; query: Record<string, string> }> {
-  const { route, params } = matchResult
+): Promise<{ pageProps: any; query: RouteParams } | { notFound: true } | PageRedirectData> {
+  const { route, params, locale } = matchResult
 
   try {
-    const componentPath = path.resolve(route.componentPath)
-    const pageModule = (await import(`file://${componentPath}`)) as PageModule
+    const pageModule = await importPageModule<PageModule>(route.componentPath)
 
     const { getServerSideProps } = pageModule
 
@@ -102,8 +226,18 @@ export async function getSSRData(
         req,
         res,
         query: req.query as Record<string, string>,
+        ...getLocaleInfo(getManifest().i18n, locale),
       }
       const result = await getServerSideProps(context)
+
+      if ('notFound' in result) {
+        return { notFound: true }
+      }
+
+      if ('redirect' in result) {
+        return toPageRedirectData(result.redirect)
+      }
+
       pageProps = result.props || {}
     }
 
@@ -119,49 +253,78 @@ export async function getSSRData(
 }
 
 /**
- * 生成完整的 HTML 文档
+ * 把 getServerSideProps / getStaticProps 返回的 redirect 转换为带状态码的重定向
+ *
+ * @param redirect - 数据函数返回的 redirect
+ * @returns 重定向数据（permanent: 308，否则 307）
+ */
+export function toPageRedirectData({ destination, permanent }: Redirect): PageRedirectData {
+  return { redirect: { destination, statusCode: permanent ? 308 : 307 } }
+}
+
+/**
+ * 生成完整的 HTML 文档（SSR、预渲染、ISR 和错误页面共用）
+ *
+ * HTML 外壳由 Document 组件渲染（Html / Head / Main / NextScript），
+ * 页面 HTML 和 __NEXT_DATA__ 通过 DocumentContext 传给 Main 和 NextScript
  *
  * @param options - 选项
  * @returns HTML 字符串
  */
-function generateHTMLDocument({
+export function generateHTMLDocument({
+  Document,
   appHtml,
+  head,
   pageProps,
   route,
   params,
+  locale,
+  manifest,
   projectRoot,
-}: {
-  appHtml: string
-  pageProps: any
-  route: string
-  params: Record<string, string>
-  projectRoot: string
-}): string {
+  gssp = false,
+  isFallback = false,
+}: GenerateHTMLOptions): string {
   // __NEXT_DATA__ 包含页面所需的所有初始数据
   // 客户端会读取这个数据进行水合
   const nextData: NextData = {
     props: { pageProps },
     page: route,
     query: params,
-    buildId: 'dev',
-    // 标记为 SSR 页面
-    gssp: true,
+    buildId: manifest.buildId,
+    // getServerSideProps 页面（fallback 外壳属于 SSG 页面）
+    gssp,
+    isFallback,
     // ✅ 注入路由清单，供客户端使用
-    manifest: getClientManifest(projectRoot),
+    manifest: getClientManifest(manifest, projectRoot),
+    // 当前语言（客户端路由器和 <html lang> 使用），错误页面使用默认语言
+    ...getLocaleInfo(manifest.i18n, locale),
+    basePath: manifest.basePath,
+    trailingSlash: manifest.trailingSlash,
+    // 客户端导航时按相同的规则重定向和重写
+    redirects: manifest.redirects,
+    rewrites: manifest.rewrites,
   }
 
-  return `<!DOCTYPE html>
-<html lang="zh-CN">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Mini Next.js</title>
-  <link rel="stylesheet" href="/styles.css">
-</head>
-<body>
-  <div id="__next">${appHtml}</div>
-  <script id="__NEXT_DATA__" type="application/json">${JSON.stringify(nextData)}</script>
-  <script type="module" src="/client.js"></script>
-</body>
-</html>`
+  // 构建产物中带 hash 的入口文件；开发模式直接加载入口源码，由 Vite 按需编译
+  const { clientEntry: clientScript, assetPrefix } = manifest
+  // 页面 chunk 的 modulepreload 和 CSS（开发模式为空）
+  const assets = manifest.pageAssets[route] ?? { scripts: [], stylesheets: [] }
+
+  // Main 和 NextScript 通过 DocumentContext 读取页面 HTML 和 __NEXT_DATA__
+  const documentHtml = ReactDOMServer.renderToStaticMarkup(
+    <DocumentContext.Provider
+      value={{
+        appHtml,
+        nextData,
+        clientScript,
+        assets,
+        assetPrefix,
+        head: uniqueHeadElements(head),
+      }}
+    >
+      <Document />
+    </DocumentContext.Provider>
+  )
+
+  return `<!DOCTYPE html>${documentHtml}`
 }
@@ -1,5 +1,11 @@
 import fs from 'fs'
-import type { RouteManifest, MatchResult, ClientRoute } from '../types/index.js'
+import path from 'path'
+import type { ComponentType } from 'react'
+import { importPageModule } from './dev-server.js'
+import { splitLocale } from '../client/i18n.js'
+import { extractParams } from '../client/route-rules.js'
+import { normalizeTrailingSlash, removeTrailingSlash } from '../client/trailing-slash.js'
+import type { RouteManifest, MatchResult, ClientRoute, SpecialPages } from '../types/index.js'
 
 /**
  * 路由匹配器
@@ -26,16 +32,28 @@ export function loadManifest(manifestPath: string): void {
   }
 }
 
+/**
+ * 直接设置路由清单（开发模式扫描 pages 目录后调用，不读取构建产物）
+ * @param manifest - 路由清单
+ */
+export function setManifest(manifest: RouteManifest): void {
+  routeManifest = manifest
+}
+
 /**
  * 根据 URL 匹配路由
  *
+ * 启用 i18n 时先去掉语言前缀（/en/blog/123 -> /blog/123），
+ * 没有前缀的 URL 属于默认语言；API 路由不区分语言，只匹配没有前缀的 URL
+ *
  * @param url - 请求的 URL 路径
- * @returns 匹配结果，包含路由信息和参数
+ * @returns 匹配结果，包含路由信息、参数和语言
  *
  * 返回格式：
  * {
  *   route: { path, componentPath, renderType, ... },
- *   params: { id: '123', ... }
+ *   params: { id: '123', ... },
+ *   locale: 'en'
  * }
  */
 export function matchRoute(url: string): MatchResult | null {
@@ -43,21 +61,29 @@ export function matchRoute(url: string): MatchResult | null {
     throw new Error('路由清单未加载，请先调用 loadManifest()')
   }
 
-  // 移除查询字符串
-  const pathname = url.split('?')[0] || '/'
+  const { i18n } = routeManifest
+
+  // 移除查询字符串、末尾的 / 和语言前缀
+  const { pathname, locale } = splitLocale(
+    removeTrailingSlash(url.split('?')[0] || '/'),
+    i18n?.locales ?? []
+  )
 
   // 遍历所有路由，找到第一个匹配的
   for (const route of routeManifest.routes) {
+    if (locale && route.renderType === 'api') continue
+
     const regex = new RegExp(route.pattern)
     const match = pathname.match(regex)
 
     if (match) {
       // 提取参数值
-      const params = extractParams(match, route.paramNames)
+      const params = extractParams(match, route.path, route.paramNames)
 
       return {
         route,
         params,
+        locale: i18n ? (locale ?? i18n.defaultLocale) : undefined,
       }
     }
   }
@@ -67,26 +93,58 @@ export function matchRoute(url: string): MatchResult | null {
 }
 
 /**
- * 从正则匹配结果中提取参数
+ * 请求路径的规范形式（不同时服务端 308 重定向到规范形式）
  *
- * @param match - 正则匹配结果
- * @param paramNames - 参数名列表
- * @returns 参数对象
+ * - 合并重复的 /：//blog///1 -> /blog/1
+ * - 大小写：只在没有路由能直接匹配时处理，语言前缀和路由的静态片段改为清单中的写法，
+ *   /EN/Blog/Hello -> /en/blog/Hello（动态参数保持原样）
+ * - 末尾的 /：按 trailingSlash 添加或去掉（/about/ -> /about）
  *
- * 示例：
- * match = ['/blog/123', '123']
- * paramNames = ['id']
- * 返回: { id: '123' }
+ * @param pathname - 请求路径（不含查询字符串）
+ * @returns 规范形式的路径
  */
-function extractParams(match: RegExpMatchArray, paramNames: string[]): Record<string, string> {
-  const params: Record<string, string> = {}
+export function getCanonicalPath(pathname: string): string {
+  if (!routeManifest) {
+    throw new Error('路由清单未加载，请先调用 loadManifest()')
+  }
 
-  // match[0] 是完整匹配，match[1]... 是捕获组
-  paramNames.forEach((name, index) => {
-    params[name] = match[index + 1] || ''
-  })
+  const { routes, i18n, trailingSlash } = routeManifest
+  const collapsed = removeTrailingSlash(pathname.replace(/\/{2,}/g, '/'))
+  const { pathname: pagePath, locale } = splitLocale(collapsed, i18n?.locales ?? [])
+  let canonical = pagePath
 
-  return params
+  if (!routes.some((route) => new RegExp(route.pattern).test(pagePath))) {
+    const route = routes.find((item) => new RegExp(item.pattern, 'i').test(pagePath))
+
+    if (route) {
+      const routeSegments = route.path.split('/')
+      canonical = pagePath
+        .split('/')
+        .map((segment, index) => {
+          const routeSegment = routeSegments[index]
+          return routeSegment && !routeSegment.startsWith(':') ? routeSegment : segment
+        })
+        .join('/')
+    }
+  }
+
+  if (locale) {
+    canonical = `/${locale}${canonical === '/' ? '' : canonical}`
+  }
+
+  return normalizeTrailingSlash(canonical, trailingSlash)
+}
+
+/**
+ * 获取完整的路由清单
+ * @returns 路由清单
+ */
+export function getManifest(): RouteManifest {
+  if (!routeManifest) {
+    throw new Error('路由清单未加载，请先调用 loadManifest()')
+  }
+
+  return routeManifest
 }
 
 /**
@@ -97,23 +155,112 @@ export function getAllRoutes(): RouteManifest['routes'] {
   return routeManifest?.routes || []
 }
 
+/**
+ * 获取 pages 目录下的特殊文件（_app、_document、错误页面）
+ * @returns 特殊文件路径
+ */
+export function getSpecialPages(): SpecialPages {
+  return (
+    routeManifest?.specialPages || {
+      app: null,
+      document: null,
+      notFound: null,
+      serverError: null,
+      error: null,
+    }
+  )
+}
+
 /**
  * 获取客户端所需的路由清单（精简版）
+ * @param manifest - 路由清单（构建时为正在生成的清单）
  * @param projectRoot - 项目根目录
  * @returns 客户端路由清单
  */
-export function getClientManifest(projectRoot: string): ClientRoute[] {
-  if (!routeManifest) {
-    return []
+export function getClientManifest(manifest: RouteManifest, projectRoot: string): ClientRoute[] {
+  // 只返回客户端需要的字段，并转换路径为相对于项目根目录的路径
+  // （与客户端 import.meta.glob 的模块路径一致）
+  // API 路由只在服务端处理，不需要发给客户端
+  return manifest.routes
+    .filter((route) => route.renderType !== 'api')
+    .map((route) => ({
+      path: route.path,
+      // /Users/.../pages/blog/[id].jsx -> /pages/blog/[id].jsx
+      componentPath: toModulePath(route.componentPath, projectRoot),
+      pattern: route.pattern,
+      isDynamic: route.isDynamic,
+      paramNames: route.paramNames,
+    }))
+}
+
+/**
+ * 页面文件在客户端 import.meta.glob 中的模块路径
+ *
+ * @param filePath - 页面文件的绝对路径
+ * @param projectRoot - 项目根目录
+ * @returns 相对于项目根目录、以 / 开头的路径
+ */
+export function toModulePath(filePath: string, projectRoot: string): string {
+  return '/' + path.relative(projectRoot, filePath).split(path.sep).join('/')
+}
+
+/**
+ * 加载 pages 目录下的特殊组件（_app / _document / _error）
+ *
+ * 项目提供了对应文件时使用自定义组件，否则使用框架的默认组件
+ *
+ * @param filePath - 特殊文件的绝对路径（不存在时为 null）
+ * @param fallback - 默认组件
+ * @returns 组件
+ */
+export async function loadSpecialComponent<M extends { default: ComponentType<any> }>(
+  filePath: string | null,
+  fallback: M['default']
+): Promise<M['default']> {
+  if (!filePath) {
+    return fallback
+  }
+
+  const module = await importPageModule<M>(filePath)
+  return module.default
+}
+
+/**
+ * 根据 Accept-Language 请求头选择语言
+ *
+ * 按 q 值从高到低依次尝试：先完全匹配（en-US），再按语言部分匹配（en-US -> en，zh -> zh-CN）
+ *
+ * @param acceptLanguage - Accept-Language 请求头（如 en-US,en;q=0.9,zh-CN;q=0.8）
+ * @returns 匹配到的语言，未启用 i18n 或没有匹配时返回 undefined
+ */
+export function detectLocale(acceptLanguage: string | undefined): string | undefined {
+  const locales = routeManifest?.i18n?.locales
+
+  if (!locales || !acceptLanguage) {
+    return undefined
+  }
+
+  const preferred = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag = '', ...options] = part.trim().split(';')
+      const q = options.find((option) => option.trim().startsWith('q='))
+      return { tag: tag.toLowerCase(), q: q ? Number(q.trim().slice(2)) : 1 }
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q)
+
+  const language = (locale: string): string => locale.toLowerCase().split('-')[0]!
+
+  for (const { tag } of preferred) {
+    const locale =
+      locales.find((item) => item.toLowerCase() === tag) ??
+      locales.find((item) => language(item) === language(tag))
+
+    if (locale) {
+      return locale
+    }
   }
 
-  // 只返回客户端需要的字段，并转换路径为相对路径
-  return routeManifest.routes.map((route) => ({
-    path: route.path,
-    // 转换为相对于 pages 目录的路径
-    // /Users/.../pages/blog/[id].jsx -> /blog/[id].jsx
-    componentPath: route.componentPath.replace(projectRoot, '').replace('/pages', ''),
-    isDynamic: route.isDynamic,
-    paramNames: route.paramNames,
-  }))
+  return undefined
 }
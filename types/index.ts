@@ -6,10 +6,16 @@
  */
 
 import type { Request, Response } from 'express'
-import type { ComponentType } from 'react'
+import type { ComponentType, ReactElement } from 'react'
 
 // ==================== Page Metadata Types ====================
 
+/**
+ * Route parameter values
+ * Catch-all segments ([...slug] / [[...slug]]) are arrays of path segments
+ */
+export type RouteParams = Record<string, string | string[]>
+
 /**
  * Metadata about a scanned page file
  * Generated during the build process by scanning the pages directory
@@ -17,7 +23,7 @@ import type { ComponentType } from 'react'
 export interface PageMetadata {
   /** Absolute file path to the page component */
   filePath: string
-  /** Route path pattern (e.g., /blog/:id) */
+  /** Route path pattern (e.g., /blog/:id, /docs/:slug+, /docs/:slug*) */
   routePath: string
   /** Original filename with extension */
   fileName: string
@@ -25,6 +31,25 @@ export interface PageMetadata {
   isDynamic: boolean
   /** Names of dynamic parameters extracted from the route */
   paramNames: string[]
+  /** Whether this is an API route (pages/api/**) */
+  isApi: boolean
+}
+
+/**
+ * Special files in the pages directory that are not routes (e.g., _app)
+ * Values are absolute file paths, or null when the project doesn't provide one
+ */
+export interface SpecialPages {
+  /** Custom App component (pages/_app) wrapping every page */
+  app: string | null
+  /** Custom Document component (pages/_document) rendering the HTML shell */
+  document: string | null
+  /** Custom 404 page (pages/404), pre-rendered at build time */
+  notFound: string | null
+  /** Custom 500 page (pages/500), pre-rendered at build time */
+  serverError: string | null
+  /** Custom error page (pages/_error), rendered at runtime with statusCode */
+  error: string | null
 }
 
 // ==================== Route Manifest Types ====================
@@ -43,10 +68,14 @@ export interface Route {
   paramNames: string[]
   /** Whether this is a dynamic route */
   isDynamic: boolean
-  /** How this page is rendered (set during build) */
-  renderType: 'ssg' | 'ssr' | null
+  /** How this page is rendered (set during build, 'api' for pages/api/** handlers) */
+  renderType: 'ssg' | 'ssr' | 'api' | null
   /** Static paths for dynamic routes (used for SSG) */
-  staticPaths?: Array<{ params: Record<string, string> }>
+  staticPaths?: Array<{ params: RouteParams }>
+  /** getStaticPaths fallback mode for paths that weren't pre-rendered (SSG dynamic routes) */
+  fallback?: FallbackMode
+  /** Smallest revalidate interval (seconds) among pre-rendered paths, if the route uses ISR */
+  revalidate?: number
 }
 
 /**
@@ -57,6 +86,38 @@ export interface RouteManifest {
   routes: Route[]
   /** ISO timestamp of when the build occurred */
   buildTime: string
+  /** Build ID derived from the build output ('development' in dev mode) */
+  buildId: string
+  /** URL of the client entry script (hashed bundle, or the source entry in dev mode) */
+  clientEntry: string
+  /** Client assets each page needs on first load, keyed by page (route path, /404, /500, /_error); empty in dev mode */
+  pageAssets: Record<string, PageAssets>
+  /** Internationalized routing (mini.config.ts i18n), absent when disabled */
+  i18n?: I18nConfig
+  /** URL prefix the app is served under (mini.config.ts basePath), '' at the root */
+  basePath: string
+  /** URL prefix of emitted scripts and stylesheets (assetPrefix, defaults to basePath; '' in dev mode, where Vite adds its base) */
+  assetPrefix: string
+  /** Canonical page URLs end with / (mini.config.ts trailingSlash) */
+  trailingSlash: boolean
+  /** Compiled mini.config.ts redirects, in declaration order */
+  redirects: CompiledRedirect[]
+  /** Compiled mini.config.ts rewrites, in declaration order */
+  rewrites: CompiledRewrite[]
+  /** Compiled mini.config.ts headers rules, every matching rule applies */
+  headers: CompiledHeaderRule[]
+  /** Special files found in the pages directory */
+  specialPages: SpecialPages
+}
+
+/**
+ * Client assets linked from a page's HTML
+ */
+export interface PageAssets {
+  /** Chunks to preload with <link rel="modulepreload"> (the page chunk and the static imports of it and the client entry) */
+  scripts: string[]
+  /** CSS imported by those chunks, linked with <link rel="stylesheet"> */
+  stylesheets: string[]
 }
 
 /**
@@ -66,7 +127,9 @@ export interface MatchResult {
   /** The matched route definition */
   route: Route
   /** Extracted parameter values */
-  params: Record<string, string>
+  params: RouteParams
+  /** Locale from the URL prefix (defaultLocale without a prefix), undefined when i18n is disabled */
+  locale?: string
 }
 
 // ==================== Next.js-style Data Fetching Types ====================
@@ -74,57 +137,113 @@ export interface MatchResult {
 /**
  * Context object passed to getStaticProps
  */
-export interface GetStaticPropsContext {
+export interface GetStaticPropsContext extends LocaleInfo {
   /** Dynamic route parameters */
-  params: Record<string, string>
+  params: RouteParams
+}
+
+/**
+ * Locale fields passed to data fetching functions (all undefined when i18n is disabled)
+ */
+export interface LocaleInfo {
+  /** Locale being rendered */
+  locale?: string
+  /** All configured locales */
+  locales?: string[]
+  /** Locale used for URLs without a prefix */
+  defaultLocale?: string
+}
+
+/**
+ * Redirect returned from getStaticProps / getServerSideProps
+ */
+export interface Redirect {
+  /** Target URL (a path such as /blog/new-slug, or an absolute URL) */
+  destination: string
+  /** true: 308 Permanent Redirect, false: 307 Temporary Redirect */
+  permanent: boolean
+}
+
+/**
+ * Redirect resolved to its HTTP status code
+ */
+export interface PageRedirect {
+  /** Target URL */
+  destination: string
+  /** 308 for permanent redirects, 307 otherwise */
+  statusCode: 307 | 308
 }
 
 /**
  * Return value from getStaticProps
+ * - { props }: render the page
+ * - { notFound: true }: the page doesn't exist, respond with the 404 page
+ * - { redirect }: redirect to another URL
  */
-export interface GetStaticPropsResult<T = any> {
-  /** Props to pass to the page component */
-  props: T
+export type GetStaticPropsResult<T = any> = (
+  { props: T } | { notFound: true } | { redirect: Redirect }
+) & {
+  /**
+   * Incremental Static Regeneration: seconds after which the page is considered stale
+   * and regenerated in the background on the next request (false / omitted = never)
+   */
+  revalidate?: number | false
 }
 
 /**
  * Context object passed to getServerSideProps
  */
-export interface GetServerSidePropsContext {
+export interface GetServerSidePropsContext extends LocaleInfo {
   /** Express request object */
   req: Request
   /** Express response object */
   res: Response
   /** Dynamic route parameters */
-  params: Record<string, string>
+  params: RouteParams
   /** Query string parameters */
   query: Record<string, string>
 }
 
 /**
  * Return value from getServerSideProps
+ * - { props }: render the page
+ * - { notFound: true }: respond with the 404 page
+ * - { redirect }: respond with a 307 / 308 redirect
  */
-export interface GetServerSidePropsResult<T = any> {
-  /** Props to pass to the page component */
-  props: T
-}
+export type GetServerSidePropsResult<T = any> =
+  { props: T } | { notFound: true } | { redirect: Redirect }
 
 /**
  * Path definition for getStaticPaths
  */
 export interface StaticPath {
-  /** Parameter values for this path */
-  params: Record<string, string>
+  /** Parameter values for this path (catch-all params are string arrays) */
+  params: RouteParams
+  /** Only pre-render this path in one locale (default: every locale) */
+  locale?: string
 }
 
+/**
+ * Context object passed to getStaticPaths
+ */
+export type GetStaticPathsContext = Omit<LocaleInfo, 'locale'>
+
+/**
+ * How to handle paths that weren't returned by getStaticPaths
+ * - false: respond with 404
+ * - true: serve a fallback shell immediately, generate the page in the background
+ * - 'blocking': generate the page on the first request, then serve it statically
+ */
+export type FallbackMode = boolean | 'blocking'
+
 /**
  * Return value from getStaticPaths
  */
 export interface GetStaticPathsResult {
   /** List of paths to pre-render */
   paths: StaticPath[]
-  /** Whether to fall back to SSR for non-pre-rendered paths */
-  fallback: boolean
+  /** What to do for paths that weren't pre-rendered */
+  fallback: FallbackMode
 }
 
 // ==================== Page Module Types ====================
@@ -140,7 +259,199 @@ export interface PageModule<P = any> {
   /** Server-side props function (called on each request) */
   getServerSideProps?: (context: GetServerSidePropsContext) => Promise<GetServerSidePropsResult<P>>
   /** Static paths function (for dynamic routes) */
-  getStaticPaths?: () => Promise<GetStaticPathsResult>
+  getStaticPaths?: (context: GetStaticPathsContext) => Promise<GetStaticPathsResult>
+}
+
+/**
+ * Props passed to the App component (pages/_app)
+ */
+export interface AppProps<P = any> {
+  /** The active page component */
+  Component: ComponentType<P>
+  /** Props for the active page */
+  pageProps: P
+}
+
+/**
+ * A custom App module (pages/_app)
+ */
+export interface AppModule {
+  /** The App component wrapping every page */
+  default: ComponentType<AppProps>
+}
+
+/**
+ * Props passed to the error page (pages/_error or the default Error)
+ */
+export interface ErrorProps {
+  /** HTTP status code (e.g., 404, 500) */
+  statusCode: number
+}
+
+/**
+ * A custom Document module (pages/_document)
+ */
+export interface DocumentModule {
+  /** The Document component rendering <html>, <head> and <body> */
+  default: ComponentType
+}
+
+/**
+ * Data available to Document primitives (Main, NextScript) during rendering
+ */
+export interface DocumentContextValue {
+  /** Rendered page HTML (placed inside #__next) */
+  appHtml: string
+  /** Data serialized into the __NEXT_DATA__ script tag */
+  nextData: NextData
+  /** URL of the client entry script (RouteManifest.clientEntry) */
+  clientScript: string
+  /** Chunks and CSS of the current page (RouteManifest.pageAssets) */
+  assets: PageAssets
+  /** Prepended to clientScript, assets and public files (RouteManifest.assetPrefix) */
+  assetPrefix: string
+  /** Tags collected from the page's <Head> components, already deduplicated */
+  head: ReactElement[]
+}
+
+// ==================== API Route Types ====================
+
+/**
+ * Request object passed to API route handlers
+ * Dynamic route parameters are merged into req.query
+ */
+export type ApiRequest = Request
+
+/**
+ * Response object passed to API route handlers
+ */
+export type ApiResponse = Response & {
+  /**
+   * Regenerate a statically generated page now (On-demand Revalidation)
+   * Rejects with an error carrying `status` when the path doesn't match an SSG page
+   */
+  revalidate: (urlPath: string) => Promise<void>
+}
+
+/**
+ * API route handler (default export of a pages/api/** file)
+ */
+export type ApiHandler = (req: ApiRequest, res: ApiResponse) => void | Promise<void>
+
+/**
+ * Per-route API configuration (exported as `config` from a pages/api/** file)
+ */
+export interface ApiConfig {
+  api?: {
+    /**
+     * Body parsing for JSON and urlencoded requests (enabled by default)
+     * - false: disable parsing, read the raw request stream in the handler
+     * - { sizeLimit }: maximum body size (e.g., '1mb')
+     */
+    bodyParser?: false | { sizeLimit?: string }
+  }
+}
+
+/**
+ * An API route module
+ */
+export interface ApiModule {
+  /** The request handler */
+  default: ApiHandler
+  /** Optional per-route configuration */
+  config?: ApiConfig
+}
+
+// ==================== Middleware Types ====================
+
+/**
+ * Request passed to the root middleware.ts
+ */
+export interface MiddlewareRequest {
+  /** HTTP method */
+  method: string
+  /** Path inside the app (without basePath, with the locale prefix), e.g. /en/dashboard */
+  pathname: string
+  /** Query parameters */
+  query: Record<string, string | string[] | undefined>
+  /** Request headers (lowercase names) */
+  headers: Record<string, string | string[] | undefined>
+  /** Request cookies */
+  cookies: Record<string, string>
+  /** Locale of the path (when i18n is configured) */
+  locale?: string
+  /** true for client navigation data requests (/_next/data/...), which run for the page they load */
+  isDataRequest: boolean
+}
+
+/**
+ * Cookie set on the response by middleware
+ */
+export interface MiddlewareCookie {
+  name: string
+  value: string
+  /** Lifetime in seconds; 0 deletes the cookie */
+  maxAge?: number
+  /** Defaults to / */
+  path?: string
+  httpOnly?: boolean
+  secure?: boolean
+  sameSite?: 'strict' | 'lax' | 'none'
+}
+
+/**
+ * Response sent directly by middleware (the page is not rendered)
+ */
+export interface MiddlewareResponse {
+  /** Defaults to 200 */
+  status?: number
+  /** Strings are sent as-is, other values as JSON */
+  body?: unknown
+}
+
+/**
+ * Return value of middleware (undefined continues to the matched route)
+ * At most one of response / redirect / rewrite takes effect, in that order
+ */
+export interface MiddlewareResult {
+  /** Respond directly */
+  response?: MiddlewareResponse
+  /** Redirect to another URL (the client router follows it during navigation) */
+  redirect?: Redirect
+  /** Serve another path inside the app while the URL stays the same (may include a query) */
+  rewrite?: string
+  /** Headers added to the request seen by API routes and getServerSideProps */
+  requestHeaders?: Record<string, string>
+  /** Headers added to the response */
+  headers?: Record<string, string>
+  /** Cookies set on the response */
+  cookies?: MiddlewareCookie[]
+}
+
+/**
+ * Middleware function (default export of middleware.ts)
+ */
+export type Middleware = (
+  request: MiddlewareRequest
+) => MiddlewareResult | void | Promise<MiddlewareResult | void>
+
+/**
+ * Middleware configuration (exported as `config` from middleware.ts)
+ */
+export interface MiddlewareConfig {
+  /**
+   * Paths the middleware runs for, same syntax as routes (/dashboard/:path*)
+   * Locale-prefixed paths match as well; runs for every path when omitted
+   */
+  matcher?: string | string[]
+}
+
+/**
+ * The middleware.ts module
+ */
+export interface MiddlewareModule {
+  default: Middleware
+  config?: MiddlewareConfig
 }
 
 // ==================== Client-side Types ====================
@@ -152,14 +463,59 @@ export interface PageModule<P = any> {
 export interface ClientRoute {
   /** Route path pattern */
   path: string
-  /** Relative path to component (e.g., /index.jsx, /blog/[id].jsx) */
+  /** Component path relative to the project root (e.g., /pages/index.tsx, /pages/blog/[id].tsx) */
   componentPath: string
+  /** Regex pattern string for matching URLs (same as the server route) */
+  pattern: string
   /** Whether this is a dynamic route */
   isDynamic: boolean
   /** Names of dynamic parameters */
   paramNames: string[]
 }
 
+/**
+ * The app's routes, filled in by the generated .next/types/routes.d.ts (module augmentation)
+ * Empty until the first `npm run build` / `npm run dev`, in which case any string is a valid href
+ */
+export interface RouteRegistry {}
+
+/**
+ * Route pathnames in file-system form (e.g., /blog/[id]) mapped to their params
+ */
+type RegisteredRoutes = RouteRegistry extends { routes: infer R } ? R : Record<string, RouteParams>
+
+/**
+ * Route pathname in file-system form (e.g., /blog/[id], /docs/[[...slug]])
+ */
+export type RoutePathname = keyof RegisteredRoutes & string
+
+/**
+ * String href pointing at an existing page, optionally followed by a query string or hash
+ */
+export type RouteHref = RouteRegistry extends { hrefs: infer H extends string }
+  ? H | `${H}?${string}` | `${H}#${string}`
+  : string
+
+/**
+ * Extra query string parameters allowed next to the route params
+ */
+type ExtraQuery = Record<string, string | string[] | undefined>
+
+/**
+ * Object form of an href: params are checked against the route, the rest becomes the query string
+ * (e.g., { pathname: '/blog/[id]', query: { id: '1' } })
+ */
+export type UrlObject = {
+  [P in RoutePathname]: { pathname: P; hash?: string } & ({} extends RegisteredRoutes[P]
+    ? { query?: RegisteredRoutes[P] & ExtraQuery }
+    : { query: RegisteredRoutes[P] & ExtraQuery })
+}[RoutePathname]
+
+/**
+ * Target accepted by Link, router.push, router.replace and router.prefetch
+ */
+export type Href = RouteHref | UrlObject
+
 /**
  * Data injected into the page via __NEXT_DATA__ script tag
  */
@@ -169,13 +525,29 @@ export interface NextData<P = any> {
   /** Current page route */
   page: string
   /** Query/route parameters */
-  query: Record<string, string>
-  /** Build ID */
+  query: RouteParams
+  /** Build ID, sent back with client navigation data requests */
   buildId: string
   /** Client-side route manifest */
   manifest: ClientRoute[]
   /** Whether this is a getServerSideProps page */
   gssp?: boolean
+  /** Whether this is a fallback shell (page data will be fetched on the client) */
+  isFallback?: boolean
+  /** Locale of the page (i18n only) */
+  locale?: string
+  /** All configured locales (i18n only) */
+  locales?: string[]
+  /** Locale used for URLs without a prefix (i18n only) */
+  defaultLocale?: string
+  /** URL prefix the app is served under ('' at the root) */
+  basePath?: string
+  /** Canonical page URLs end with /, applied by Link and router.push */
+  trailingSlash?: boolean
+  /** Redirects applied by router.push / replace before fetching page data */
+  redirects?: CompiledRedirect[]
+  /** Rewrites applied by router.push / replace before fetching page data */
+  rewrites?: CompiledRewrite[]
 }
 
 /**
@@ -185,7 +557,9 @@ export interface RouterState {
   /** Current pathname */
   pathname: string
   /** Current query parameters */
-  query: Record<string, string>
+  query: RouteParams
+  /** Whether the page is a fallback shell still waiting for its data */
+  isFallback: boolean
 }
 
 /**
@@ -195,9 +569,20 @@ export interface PageData<P = any> {
   /** Page props */
   pageProps: P
   /** Query/route parameters */
-  query: Record<string, string>
+  query: RouteParams
   /** Page route */
   page: string
+  /** Locale of the page (i18n only) */
+  locale?: string
+}
+
+/**
+ * Returned instead of page data when getStaticProps / getServerSideProps redirected
+ * The client router follows the redirect instead of rendering the page
+ */
+export interface PageRedirectData {
+  /** Where to go instead */
+  redirect: PageRedirect
 }
 
 /**
@@ -222,12 +607,58 @@ export interface RenderResult {
   count?: number
   /** Type of SSG rendering */
   type?: 'ssg-pure' | 'ssg-with-data' | 'ssg-dynamic'
+  /** getStaticPaths fallback mode (dynamic routes only) */
+  fallback?: FallbackMode
+  /** Smallest revalidate interval (seconds) returned by getStaticProps, if any */
+  revalidate?: number
   /** Reason for failure if not successful */
   reason?: string
   /** Error message if failed */
   error?: string
 }
 
+/**
+ * Result from serving an SSG page at runtime
+ */
+export interface SSGRenderResult {
+  /** HTML document */
+  html: string
+  /** Whether this is a fallback shell (fallback: true) that must not be cached */
+  isFallback: boolean
+  /** Revalidate interval (seconds) of the served page, false if it never goes stale */
+  revalidate: number | false
+}
+
+/**
+ * Result from rendering an SSR page at runtime
+ * getServerSideProps can skip rendering by returning notFound or redirect
+ */
+export type SSRRenderResult = { html: string } | { notFound: true } | PageRedirectData
+
+/**
+ * Data file written next to each pre-rendered page ({path}.json)
+ */
+export interface StaticPageData {
+  /** Props returned by getStaticProps */
+  pageProps: any
+  /** Route parameters the page was generated with */
+  query: RouteParams
+  /** Revalidate interval (seconds) returned by getStaticProps, false if never stale */
+  revalidate: number | false
+  /** Timestamp (ms) of when the page was (re)generated */
+  generatedAt: number
+}
+
+/**
+ * Data file written instead of a page when getStaticProps returned a redirect ({path}.json, no .html)
+ */
+export interface StaticRedirectData extends PageRedirectData {
+  /** Revalidate interval (seconds) returned by getStaticProps, false if never stale */
+  revalidate: number | false
+  /** Timestamp (ms) of when the redirect was (re)generated */
+  generatedAt: number
+}
+
 /**
  * Options for rendering a single page
  */
@@ -236,12 +667,18 @@ export interface RenderSinglePageOptions {
   route: Route
   /** Page component */
   PageComponent: ComponentType<any>
+  /** App component wrapping the page (pages/_app or the default App) */
+  App: ComponentType<AppProps>
+  /** Document component rendering the HTML shell (pages/_document or the default Document) */
+  Document: ComponentType
   /** getStaticProps function (optional) */
   getStaticProps?: (context: GetStaticPropsContext) => Promise<GetStaticPropsResult>
   /** Pre-computed props (optional, used for dynamic routes) */
   props?: any
   /** Route parameters */
-  params: Record<string, string>
+  params: RouteParams
+  /** Locale to render (i18n only); output goes to {outputDir}/{locale}/ */
+  locale?: string
   /** Output directory for generated files */
   outputDir: string
   /** Complete route manifest */
@@ -254,20 +691,218 @@ export interface RenderSinglePageOptions {
  * Options for generating HTML document
  */
 export interface GenerateHTMLOptions {
+  /** Document component rendering the HTML shell */
+  Document: ComponentType
   /** Rendered React HTML string */
   appHtml: string
+  /** Tags collected from <Head> while rendering appHtml */
+  head: ReactElement[]
   /** Page props */
   pageProps: any
   /** Current route path */
   route: string
   /** Route parameters */
-  params: Record<string, string>
+  params: RouteParams
+  /** Locale of the page (i18n only) */
+  locale?: string
   /** Complete route manifest */
   manifest: RouteManifest
   /** Project root directory */
   projectRoot: string
-  /** Whether this is SSR (for __NEXT_DATA__) */
-  isSSR?: boolean
+  /** Whether the page uses getServerSideProps (__NEXT_DATA__.gssp) */
+  gssp?: boolean
+  /** Whether this is a fallback shell without page content (__NEXT_DATA__.isFallback) */
+  isFallback?: boolean
+}
+
+/**
+ * Problem found by the build-time validation of routes and page exports
+ */
+export interface ValidationIssue {
+  /** Errors fail the build, warnings are only reported */
+  level: 'error' | 'warning'
+  /** Absolute path of the file the issue belongs to */
+  file: string
+  /** 1-based line number, when the issue points at a specific export */
+  line?: number
+  /** Human-readable description */
+  message: string
+}
+
+/**
+ * Raw and gzipped size of one or more files, in bytes
+ */
+export interface FileSize {
+  raw: number
+  gzip: number
+}
+
+/**
+ * Client JavaScript loaded by a route, from the Vite manifest
+ */
+export interface RouteSizeInfo {
+  /** Route path pattern */
+  path: string
+  /** Absolute path to the page component file */
+  componentPath: string
+  /** How the route is served (ISR = SSG with revalidate) */
+  renderType: 'SSG' | 'SSR' | 'ISR'
+  /** The page's own chunk and the chunks only it imports */
+  page: FileSize
+  /** Entry chunk and its imports, loaded on every page */
+  shared: FileSize
+  /** Everything loaded before hydration (page + shared) */
+  firstLoad: FileSize
+}
+
+// ==================== Config Types ====================
+
+/**
+ * Internationalized routing: the default locale has no URL prefix (/about), others do (/en/about)
+ */
+export interface I18nConfig {
+  /** Supported locales, e.g. ['zh-CN', 'en'] */
+  locales: string[]
+  /** Locale for URLs without a prefix */
+  defaultLocale: string
+  /** Redirect / to the locale preferred by Accept-Language (default true) */
+  localeDetection?: boolean
+}
+
+/**
+ * Condition on the incoming request for a redirects / rewrites / headers rule
+ */
+export interface RouteHas {
+  /** Where to read the value from */
+  type: 'header' | 'cookie' | 'query'
+  /** Header name (case-insensitive), cookie name or query parameter */
+  key: string
+  /** Regular expression the whole value must match; named groups become params. Any value when omitted (the value is available as :key) */
+  value?: string
+}
+
+/**
+ * Redirect rule (mini.config.ts redirects())
+ */
+export interface RedirectRule {
+  /** Path pattern, same syntax as routes: /blog/:id, /docs/:slug+, /docs/:slug* */
+  source: string
+  /** Target path or absolute URL; :params from source and has are substituted */
+  destination: string
+  /** 308 when true, 307 when false */
+  permanent: boolean
+  /** Every condition must match */
+  has?: RouteHas[]
+}
+
+/**
+ * Rewrite rule (mini.config.ts rewrites()): serve destination while the URL stays at source
+ */
+export interface RewriteRule {
+  /** Path pattern, same syntax as routes */
+  source: string
+  /** Target path inside the app; :params from source and has are substituted */
+  destination: string
+  /** Every condition must match */
+  has?: RouteHas[]
+}
+
+/**
+ * Response header
+ */
+export interface HeaderEntry {
+  key: string
+  /** Header value; :params from source and has are substituted */
+  value: string
+}
+
+/**
+ * Custom response headers rule (mini.config.ts headers())
+ */
+export interface HeaderRule {
+  /** Path pattern, same syntax as routes */
+  source: string
+  /** Headers set on matching responses */
+  headers: HeaderEntry[]
+  /** Every condition must match */
+  has?: RouteHas[]
+}
+
+/**
+ * Source of a rule compiled into the route manifest
+ */
+export interface CompiledRule {
+  /** Original source pattern */
+  source: string
+  /** Regex pattern string for matching paths (same format as Route.pattern) */
+  pattern: string
+  /** Names of the params in source */
+  paramNames: string[]
+  /** Conditions on the request */
+  has?: RouteHas[]
+}
+
+/**
+ * Compiled redirect rule
+ */
+export interface CompiledRedirect extends CompiledRule {
+  destination: string
+  statusCode: 307 | 308
+}
+
+/**
+ * Compiled rewrite rule
+ */
+export interface CompiledRewrite extends CompiledRule {
+  destination: string
+}
+
+/**
+ * Compiled headers rule
+ */
+export interface CompiledHeaderRule extends CompiledRule {
+  headers: HeaderEntry[]
+}
+
+/**
+ * Size budgets checked after the build (gzipped bytes), exceeding one fails the build
+ */
+export interface SizeBudgets {
+  /** Max first-load JS of a route */
+  firstLoadJs?: number
+  /** Max page-specific JS of a route */
+  pageJs?: number
+}
+
+/**
+ * Project configuration (mini.config.ts default export)
+ */
+export interface MiniConfig {
+  /** Build output directory (default '.next'); add {distDir}/types to tsconfig include for typed routes */
+  distDir?: string
+  /** Pages directory (default 'pages') */
+  pagesDir?: string
+  /** Directory of files served as-is (default 'public') */
+  publicDir?: string
+  /** Redirects, checked in order before routes are matched */
+  redirects?: () => RedirectRule[] | Promise<RedirectRule[]>
+  /** Rewrites, checked in order after redirects */
+  rewrites?: () => RewriteRule[] | Promise<RewriteRule[]>
+  /** Custom response headers */
+  headers?: () => HeaderRule[] | Promise<HeaderRule[]>
+  /** Client JS size budgets */
+  budgets?: SizeBudgets
+  /** Internationalized routing */
+  i18n?: I18nConfig
+  /** Serve the app under a sub-path, e.g. '/docs' (pages, data requests and assets) */
+  basePath?: string
+  /** Load scripts and stylesheets from another origin, e.g. 'https://cdn.example.com' (defaults to basePath) */
+  assetPrefix?: string
+  /**
+   * Canonical page URLs end with / (/about/) instead of not (/about, the default)
+   * The server 308-redirects the other form; SSG pages are written as about/index.html
+   */
+  trailingSlash?: boolean
 }
 
 // ==================== Router Event Types ====================
@@ -297,7 +932,20 @@ export interface FetchPageDataOptions {
   force?: boolean
 }
 
+/**
+ * Options for router.push / replace / prefetch
+ */
+export interface NavigateOptions {
+  /** Target locale (default: the current locale); false leaves the href without a locale prefix */
+  locale?: string | false
+}
+
 /**
  * Vite glob import result type
  */
 export type ViteGlobImport = Record<string, () => Promise<PageModule>>
+
+/**
+ * Vite eager glob import result type
+ */
+export type ViteEagerGlobImport<M> = Record<string, M>
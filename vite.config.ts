@@ -1,16 +1,40 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
-import { resolve } from 'path'
+import { resolve, relative, basename, sep } from 'path'
+import { createHash } from 'crypto'
+import { stripPageExports } from './build/strip-page-exports.js'
+import { clientEnv } from './build/client-env.js'
+import { PAGES_ALIAS } from './build/config.js'
 
 /**
  * Vite 配置文件
- * 用于构建客户端 JavaScript bundle
+ * 用于构建客户端 JavaScript bundle，开发模式（npm run dev）下也作为中间件嵌入服务器
  */
 export default defineConfig({
-  plugins: [react()],
+  // clientEnv 把 PUBLIC_ 开头的环境变量内联到客户端代码
+  plugins: [react(), stripPageExports(), clientEnv()],
+
+  resolve: {
+    // 客户端入口通过 @pages 别名收集页面；mini.config.ts 配置了 pagesDir 时，
+    // 构建和开发服务器会传入指向它的别名，覆盖这里的默认值
+    alias: [{ find: PAGES_ALIAS, replacement: resolve(__dirname, 'pages') }],
+  },
+
+  css: {
+    modules: {
+      // CSS Modules 类名：文件名_类名__hash（如 terms_intro__x1Y2z）
+      // 只由文件路径和原始类名决定，服务端（build/css-loader.ts）和客户端得到相同的类名；
+      // 与 CSS 内容无关，开发模式修改样式后服务端已加载的类名映射仍然有效
+      generateScopedName(name, filename) {
+        const file = relative(__dirname, filename.split('?')[0]!).split(sep).join('/')
+        const hash = createHash('sha256').update(`${file}:${name}`).digest('base64url').slice(0, 5)
+        return `${basename(file).split('.')[0]}_${name}__${hash}`
+      },
+    },
+  },
 
   build: {
-    // 输出目录
+    // 输出目录（构建时按 mini.config.ts 的 distDir 覆盖）
     outDir: '.next/static',
 
     // 生成清单文件（用于映射模块 ID）
@@ -25,13 +49,14 @@ export default defineConfig({
         // 输出格式
         format: 'es',
         // 生成的文件名格式
-        entryFileNames: '[name].js',
+        // 入口文件名也带上内容 hash，部署新版本后浏览器不会用到缓存的旧入口
+        entryFileNames: '[name]-[hash].js',
         chunkFileNames: '[name]-[hash].js',
       },
     },
   },
 
-  // 开发服务器配置（本项目不使用 Vite dev server）
+  // 开发服务器配置（npm run dev 以中间件模式使用，不单独监听端口）
   server: {
     port: 5173,
   },